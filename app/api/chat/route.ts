@@ -4,25 +4,50 @@
  * Features: Multi-strategy retrieval, Cohere reranking, and observability.
  */
 import { NextRequest } from "next/server";
-import { Embeddings } from "@/rag/embeddings";
-import { DocsStore } from "@/rag/store-upstash";
-import { Retriever } from "@/rag/retriever-upstash";
 import { checkRateLimit, getClientIp } from "@/rag/ratelimit";
-import { classifyQuery, type ClassifiedQuery } from "@/rag/classifier";
-import { BM25Searcher, loadTermIndex } from "@/rag/bm25-searcher";
-import { reciprocalRankFusion, type FusedResult } from "@/rag/fusion";
-import { getReranker, type RerankResult } from "@/rag/reranker";
 import {
-  getObservabilityService,
-  generateQueryId,
-  type QueryLog,
-} from "@/rag/observability";
+  isUserStrategy,
+  runRagPipeline,
+  type UserStrategy,
+} from "@/rag/pipeline";
+import { DEFAULT_CONFIDENCE_THRESHOLD } from "@/rag/confidence";
+import { getDefaultModel, getModelConfig, isAllowedModel } from "@/rag/chat-models";
+import { isEmbeddingProviderConfigured } from "@/rag/embeddings";
+import {
+  streamModelChat,
+  type ChatStreamChunk,
+  type ChatUsage,
+} from "@/rag/chat-providers";
+import { generateQueryId, logQueryAsync } from "@/rag/observability";
+import { AnswerCache, replayAnswer, type AnswerCacheStatus } from "@/rag/answer-cache";
+import {
+  describeFusion,
+  parseFusionOverride,
+  type FusionConfig,
+} from "@/rag/fusion";
+import {
+  ConversationStore,
+  generateConversationId,
+  isValidConversationId,
+  packHistory,
+  parseHistory,
+  rewriteFollowUp,
+  type ConversationTurn,
+} from "@/rag/conversation";
+import {
+  acceptsEventStream,
+  encodeEvent,
+  EVENT_STREAM_CONTENT_TYPE,
+  type ChatStreamEvent,
+} from "@/rag/sse";
 
-export const runtime = "edge";
+// Node.js runtime: the local vector store reads from disk
+export const runtime = "nodejs";
 
 const MAX_MESSAGE_LENGTH = 2000;
-const ENABLE_HYBRID = process.env.ENABLE_HYBRID_SEARCH === "true";
-const LOW_CONFIDENCE_THRESHOLD = 0.3;
+const HISTORY_TOKEN_BUDGET = 2000;
+// `conversationId` value that starts a new server-side conversation
+const NEW_CONVERSATION = "new";
 
 const ALLOWED_ORIGINS = [
   "https://docs.openclaw.ai",
@@ -36,8 +61,8 @@ function getCorsHeaders(request: Request) {
   return {
     "Access-Control-Allow-Origin": allowedOrigin,
     "Access-Control-Allow-Methods": "POST, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type",
-    "Access-Control-Expose-Headers": "X-Query-Id, X-Best-Score, X-Threshold, X-Low-Confidence, X-Result-Count, X-Strategy, X-Intent, X-Retrieval-Ms, X-Rerank-Ms, X-Relevance-Rank",
+    "Access-Control-Allow-Headers": "Content-Type, Accept",
+    "Access-Control-Expose-Headers": "X-Query-Id, X-Best-Score, X-Threshold, X-Low-Confidence, X-Result-Count, X-Strategy, X-Intent, X-Retrieval-Ms, X-Rerank-Ms, X-Relevance-Rank, X-Conversation-Id, X-Fusion, X-Context-Tokens, X-Answer-Cache, X-Rerank",
     "Vary": "Origin",
   };
 }
@@ -66,60 +91,9 @@ function jsonResponse(
   });
 }
 
-function buildSystemPrompt(context: string): string {
-  return `You are an expert assistant for OpenClaw documentation.
-
-INSTRUCTIONS:
-1. Answer ONLY from the provided documentation excerpts
-2. If the answer is not in the excerpts, clearly state this
-3. Cite sources using [Source Title](URL) format
-4. For code examples, use the exact code from docs when available
-5. Be concise but complete
-6. If multiple approaches exist, mention the recommended one first
-
-CONFIDENCE:
-- If you're highly confident, answer directly
-- If partially confident, caveat with "Based on the available documentation..."
-- If not confident, say "I couldn't find specific documentation for this..."
-
-DOCUMENTATION EXCERPTS:
-${context}`;
-}
-
-/**
- * Broader prompt used when retrieval confidence is low or no docs match.
- * Allows general AI/agent knowledge while relating back to OpenClaw.
- */
-function buildGeneralPrompt(context: string): string {
-  const contextBlock = context
-    ? `\n\nThe following documentation excerpts may be partially relevant — cite them with [Source Title](URL) if you use them:\n\n${context}`
-    : "";
-
-  return `You are an expert assistant for OpenClaw — an open-source AI agent framework.
-You have deep knowledge of AI, AI agents, LLMs, RAG, prompt engineering, and related topics.
-
-INSTRUCTIONS:
-1. Answer the user's question using your general knowledge of AI and AI agents
-2. Where relevant, explain how the topic relates to OpenClaw or how OpenClaw handles it
-3. If documentation excerpts are provided and relevant, cite them using [Source Title](URL) format
-4. Clearly distinguish between information from the docs and your general knowledge
-5. Be concise but complete
-6. If you are unsure about OpenClaw-specific details, say so rather than guessing
-
-SCOPE:
-- AI concepts, architectures, and best practices
-- AI agents, tool use, planning, and orchestration
-- LLMs, embeddings, RAG, vector databases
-- OpenClaw features, APIs, and workflows
-- Comparisons with other frameworks (when asked)
-- General software engineering in the context of AI applications${contextBlock}`;
-}
-
 export async function POST(request: NextRequest) {
   const queryId = generateQueryId();
   const startTime = Date.now();
-  let retrievalMs = 0;
-  let rerankMs = 0;
 
   try {
     // Rate limiting
@@ -151,9 +125,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate environment
-    const geminiKey = process.env.GEMINI_API_KEY;
-    const openaiKey = process.env.OPENAI_API_KEY;
-    if (!geminiKey || !openaiKey) {
+    const defaultModel = getDefaultModel();
+    if (!isEmbeddingProviderConfigured() || !defaultModel) {
       return jsonResponse(
         request,
         { error: "Server configuration error", status: 500 },
@@ -164,39 +137,56 @@ export async function POST(request: NextRequest) {
 
     // Parse body
     let message = "";
-    const ALLOWED_MODELS = [
-      "gpt-5-nano",
-      "gpt-5-mini",
-      "gpt-5",
-      "gpt-5.1",
-      "gpt-5.2",
-    ];
-    const ALLOWED_STRATEGIES = ["auto", "hybrid", "semantic", "keyword"] as const;
-    type UserStrategy = (typeof ALLOWED_STRATEGIES)[number];
-
-    const defaultModel = process.env.DEFAULT_CHAT_MODEL || "gpt-5-mini";
-    let model = ALLOWED_MODELS.includes(defaultModel)
-      ? defaultModel
-      : "gpt-5-mini";
+    let conversationId: string | null = null;
+    let startConversation = false;
+    let clientHistory: ConversationTurn[] | null = null;
+    let model = defaultModel;
     let userStrategy: UserStrategy = "auto";
-    let confidenceThreshold = LOW_CONFIDENCE_THRESHOLD;
+    let confidenceThreshold = DEFAULT_CONFIDENCE_THRESHOLD;
+    let fusionOverride: Partial<FusionConfig> | undefined;
+    let useAnswerCache = true;
 
     try {
       const body = await request.json();
       message = body?.message;
-      if (
-        body?.model &&
-        typeof body.model === "string" &&
-        ALLOWED_MODELS.includes(body.model)
-      ) {
+      if (body?.messages !== undefined) {
+        clientHistory = parseHistory(body.messages);
+        if (!clientHistory) {
+          return jsonResponse(
+            request,
+            {
+              error: "messages must be an array of { role, content } objects",
+              status: 400,
+            },
+            400,
+            rateLimitHeaders
+          );
+        }
+        // Without an explicit message, the last user turn is the question
+        const last = clientHistory[clientHistory.length - 1];
+        if (!message && last?.role === "user") {
+          message = last.content;
+          clientHistory = clientHistory.slice(0, -1);
+        }
+      }
+      if (body?.conversationId === NEW_CONVERSATION) {
+        startConversation = true;
+      } else if (body?.conversationId !== undefined) {
+        if (!isValidConversationId(body.conversationId)) {
+          return jsonResponse(
+            request,
+            { error: "Invalid conversationId", status: 400 },
+            400,
+            rateLimitHeaders
+          );
+        }
+        conversationId = body.conversationId;
+      }
+      if (isAllowedModel(body?.model)) {
         model = body.model;
       }
-      if (
-        body?.retrieval &&
-        typeof body.retrieval === "string" &&
-        ALLOWED_STRATEGIES.includes(body.retrieval as UserStrategy)
-      ) {
-        userStrategy = body.retrieval as UserStrategy;
+      if (isUserStrategy(body?.retrieval)) {
+        userStrategy = body.retrieval;
       }
       if (
         typeof body?.confidenceThreshold === "number" &&
@@ -205,6 +195,21 @@ export async function POST(request: NextRequest) {
       ) {
         confidenceThreshold = body.confidenceThreshold;
       }
+      if (body?.fusion !== undefined) {
+        const override = parseFusionOverride(body.fusion);
+        if (!override) {
+          return jsonResponse(
+            request,
+            { error: "Invalid fusion config", status: 400 },
+            400,
+            rateLimitHeaders
+          );
+        }
+        fusionOverride = override;
+      }
+      if (body?.answerCache === false) {
+        useAnswerCache = false;
+      }
     } catch {
       return jsonResponse(
         request,
@@ -245,201 +250,83 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Classify query for optimal retrieval strategy
-    const classified: ClassifiedQuery = classifyQuery(trimmedMessage);
-
-    // Override strategy if user explicitly selected one (not "auto")
-    if (userStrategy !== "auto") {
-      classified.strategy = userStrategy;
+    // Load prior turns: client-supplied history wins over server-side state
+    const conversationStore = new ConversationStore();
+    // Only clients that opted in get their turns stored
+    if (startConversation && !clientHistory && conversationStore.enabled) {
+      conversationId = generateConversationId();
     }
+    const history: ConversationTurn[] =
+      clientHistory ??
+      (conversationId ? await conversationStore.getTurns(conversationId) : []);
 
-    // Initialize RAG components
-    const embeddings = new Embeddings(geminiKey);
-    const store = new DocsStore();
-    const retriever = new Retriever(store, embeddings);
-
-    let finalResults: Array<{
-      id: string;
-      content: string;
-      title: string;
-      url: string;
-      score: number;
-    }> = [];
-    let topScores: number[] = [];
-
-    const retrievalStart = Date.now();
-
-    if (ENABLE_HYBRID) {
-      // ===== HYBRID SEARCH PIPELINE =====
-
-      // Load BM25 index
-      const termIndex = await loadTermIndex();
-      const bm25Searcher = termIndex ? new BM25Searcher(termIndex) : null;
-
-      // Retrieve based on strategy
-      let semanticResults: Awaited<ReturnType<typeof retriever.retrieve>> = [];
-      let keywordResults: Array<{ id: string; score: number }> = [];
-
-      // Semantic search (for semantic and hybrid strategies)
-      if (classified.strategy !== "keyword") {
-        semanticResults = await retriever.retrieve(classified.expanded, 20);
-      }
+    // Rewrite follow-ups into a standalone query for retrieval
+    const retrievalQuery = rewriteFollowUp(trimmedMessage, history);
 
-      // Keyword search (for keyword and hybrid strategies)
-      if (bm25Searcher && classified.strategy !== "semantic") {
-        const keywordQuery = classified.keywords.join(" ");
-        keywordResults = bm25Searcher.search(keywordQuery, 20);
-      }
-
-      retrievalMs = Date.now() - retrievalStart;
-
-      // Build chunk map for fusion (from semantic results)
-      const chunkMap = new Map(
-        semanticResults.map((r) => [r.chunk.id, r.chunk])
-      );
-
-      // Fuse results based on strategy
-      let fusedResults: FusedResult[];
-
-      if (classified.strategy === "hybrid" && keywordResults.length > 0 && semanticResults.length > 0) {
-        // Hybrid: combine both using RRF
-        fusedResults = reciprocalRankFusion(
-          semanticResults,
-          keywordResults,
-          chunkMap
-        );
-      } else if (classified.strategy === "keyword" && keywordResults.length > 0) {
-        // Keyword only: need to fetch chunk data for keyword results
-        // For now, fall back to semantic if we have no chunk data
-        if (semanticResults.length > 0) {
-          // Use semantic results that match keyword IDs, prioritized by keyword rank
-          const keywordIds = new Set(keywordResults.map(r => r.id));
-          const matchingResults = semanticResults.filter(r => keywordIds.has(r.chunk.id));
-          fusedResults = matchingResults.map((r, idx) => ({
-            id: r.chunk.id,
-            chunk: r.chunk,
-            semanticRank: null,
-            semanticScore: null,
-            keywordRank: idx + 1,
-            keywordScore: keywordResults.find(kr => kr.id === r.chunk.id)?.score || 0,
-            fusedScore: keywordResults.find(kr => kr.id === r.chunk.id)?.score || 0,
-          }));
-        } else {
-          // No semantic results, need to do a semantic search to get chunk data
-          const semanticFallback = await retriever.retrieve(classified.expanded, 20);
-          semanticFallback.forEach(r => chunkMap.set(r.chunk.id, r.chunk));
-          fusedResults = reciprocalRankFusion(
-            semanticFallback,
-            keywordResults,
-            chunkMap
-          );
-        }
-      } else {
-        // Semantic only or fallback
-        fusedResults = semanticResults.map((r, idx) => ({
-          id: r.chunk.id,
-          chunk: r.chunk,
-          semanticRank: idx + 1,
-          semanticScore: r.score,
-          keywordRank: null,
-          keywordScore: null,
-          fusedScore: r.score,
-        }));
-      }
-
-      // Rerank with Cohere
-      const rerankStart = Date.now();
-      const reranker = getReranker();
-
-      const docsToRerank = fusedResults.slice(0, 25).map((r) => ({
-        id: r.id,
-        content: r.chunk.content,
-        title: r.chunk.title,
-        url: r.chunk.url,
-      }));
-
-      const reranked: RerankResult[] = await reranker.rerank(
-        classified.original,
-        docsToRerank,
-        8
-      );
-
-      rerankMs = Date.now() - rerankStart;
-
-      // Map reranked results back with metadata
-      finalResults = reranked.map((r) => {
-        const original = docsToRerank.find((d) => d.id === r.id)!;
-        return {
-          id: r.id,
-          content: original.content,
-          title: original.title,
-          url: original.url,
-          score: r.relevanceScore,
-        };
-      });
-
-      topScores = finalResults.map((r) => r.score);
-    } else {
-      // ===== LEGACY SEMANTIC-ONLY PIPELINE =====
-      const results = await retriever.retrieve(trimmedMessage, 8);
-      retrievalMs = Date.now() - retrievalStart;
-
-      finalResults = results.map((r) => ({
-        id: r.chunk.id,
-        content: r.chunk.content,
-        title: r.chunk.title,
-        url: r.chunk.url,
-        score: r.score,
-      }));
-
-      topScores = finalResults.map((r) => r.score);
-    }
-
-    const hasResults = finalResults.length > 0;
-    const bestScore = hasResults ? topScores[0] : 0;
-    const isLowConfidence = !hasResults || bestScore < confidenceThreshold;
-
-    const relevanceRank = computeRelevanceRank(
+    const {
+      classified,
+      sources: finalResults,
+      topScores,
       bestScore,
-      finalResults.length,
-      classified.intent,
+      bestRawScore,
       isLowConfidence,
-    );
-
-    const context = hasResults
-      ? finalResults
-          .map((result) => `[${result.title}](${result.url})\n${result.content.slice(0, 1200)}`)
-          .join("\n\n---\n\n")
-      : "";
-
-    const systemPrompt = isLowConfidence
-      ? buildGeneralPrompt(context)
-      : buildSystemPrompt(context);
-
-    // Stream response from OpenAI
-    const openaiResponse = await fetch(
-      "https://api.openai.com/v1/chat/completions",
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${openaiKey}`,
-        },
-        body: JSON.stringify({
-          model,
-          stream: true,
-          messages: [
+      relevanceRank,
+      retrievalMs,
+      rerankMs,
+      rerank,
+      bm25Cache,
+      embeddingCache,
+      fusion,
+      systemPrompt,
+      contextTokens,
+      queryVector,
+    } = await runRagPipeline(retrievalQuery, {
+      strategy: userStrategy,
+      confidenceThreshold,
+      fusion: fusionOverride,
+      contextTokens: getModelConfig(model)?.contextTokens,
+    });
+    const fusionLabel = fusion ? describeFusion(fusion) : undefined;
+
+    // Replay a stored answer for a repeated question; follow-ups depend on
+    // the conversation, low-confidence answers are not worth repeating and
+    // fusion experiments must not mix with the configured retrieval
+    const answerCache = new AnswerCache();
+    const answerScope = { model, strategy: classified.strategy };
+    const cacheable =
+      answerCache.enabled &&
+      useAnswerCache &&
+      !fusionOverride &&
+      history.length === 0 &&
+      !isLowConfidence;
+    const cached = cacheable
+      ? await answerCache.lookup(retrievalQuery, queryVector, answerScope)
+      : null;
+    const answerCacheStatus: AnswerCacheStatus = !cacheable ? "bypass" : cached ? "hit" : "miss";
+
+    // Structured event stream is opt-in; plain text stays the default
+    const useEventStream = acceptsEventStream(request);
+
+    // Stream response from the model's provider
+    let completion: AsyncGenerator<ChatStreamChunk>;
+    try {
+      completion = cached
+        ? replayAnswer(cached.answer.answer)
+        : await streamModelChat(getModelConfig(model)!, [
             { role: "system", content: systemPrompt },
+            ...packHistory(history, HISTORY_TOKEN_BUDGET).map((turn) => ({
+              role: turn.role,
+              content: turn.content,
+            })),
             { role: "user", content: trimmedMessage },
-          ],
-        }),
-      }
-    );
-
-    if (!openaiResponse.ok || !openaiResponse.body) {
+          ]);
+    } catch (err) {
       return jsonResponse(
         request,
-        { error: `OpenAI API error: ${openaiResponse.status}`, status: 502 },
+        {
+          error: err instanceof Error ? err.message : "LLM provider error",
+          status: 502,
+        },
         502,
         rateLimitHeaders
       );
@@ -449,76 +336,148 @@ export async function POST(request: NextRequest) {
     logQueryAsync(queryId, {
       timestamp: startTime,
       query: trimmedMessage,
+      retrievalQuery:
+        retrievalQuery !== trimmedMessage ? retrievalQuery : undefined,
+      conversationId: conversationId || undefined,
       intent: classified.intent,
       strategy: classified.strategy,
       retrievalMs,
       rerankMs,
+      rerank,
+      bm25Cache,
+      embeddingCache,
+      answerCache: answerCacheStatus,
+      fusion: fusionLabel,
+      contextTokens,
       totalMs: Date.now() - startTime,
       resultCount: finalResults.length,
       topChunkIds: finalResults.slice(0, 5).map((r) => r.id),
       topScores: topScores.slice(0, 5),
+      rawScore: bestRawScore ?? undefined,
       model,
       success: true,
       clientIp,
     });
 
-    // Create a TransformStream to process SSE data
+    // Re-emit the completion as plain text or typed events
     const encoder = new TextEncoder();
-    const decoder = new TextDecoder();
 
-    let buffer = "";
+    const readable = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: ChatStreamEvent) => {
+          if (useEventStream) {
+            controller.enqueue(encoder.encode(encodeEvent(event)));
+          } else if (event.event === "delta") {
+            controller.enqueue(encoder.encode(event.data.content));
+          }
+        };
+
+        send({
+          event: "meta",
+          data: {
+            queryId,
+            intent: classified.intent,
+            strategy: classified.strategy,
+            threshold: confidenceThreshold,
+            bestScore,
+            lowConfidence: isLowConfidence,
+            relevanceRank,
+            resultCount: finalResults.length,
+            retrievalMs,
+            rerankMs,
+            rerank,
+            model,
+            conversationId: conversationId || undefined,
+            fusion: fusionLabel,
+            contextTokens,
+            answerCache: answerCacheStatus,
+          },
+        });
+        const sources = finalResults.map((r) => ({
+          id: r.id,
+          title: r.title,
+          url: r.url,
+          path: r.path,
+          section: r.section,
+          score: r.score,
+        }));
+        send({
+          event: "sources",
+          data: { sources: cached ? cached.answer.sources : sources },
+        });
+
+        let answer = "";
+        let usage: ChatUsage | null = null;
+        let completed = false;
+        let streamError: unknown = null;
+
+        try {
+          for await (const chunk of completion) {
+            if (chunk.content) {
+              answer += chunk.content;
+              send({ event: "delta", data: { content: chunk.content } });
+            }
+            if (chunk.usage) usage = chunk.usage;
+          }
 
-    const transformStream = new TransformStream({
-      transform(chunk, controller) {
-        buffer += decoder.decode(chunk, { stream: true });
-        const lines = buffer.split("\n");
+          if (usage) {
+            send({ event: "usage", data: usage });
+          }
 
-        // Keep the last (potentially incomplete) line in the buffer
-        buffer = lines.pop() || "";
+          send({
+            event: "done",
+            data: { queryId, totalMs: Date.now() - startTime },
+          });
+          completed = true;
+        } catch (err) {
+          console.error("[Stream Error]", err);
+          streamError = err;
+          send({
+            event: "error",
+            data: {
+              message: err instanceof Error ? err.message : "Stream failed",
+            },
+          });
+        }
 
-        for (const line of lines) {
-          const trimmed = line.trim();
-          if (!trimmed.startsWith("data:")) continue;
-          const data = trimmed.slice(5).trim();
-          if (data === "[DONE]") return;
+        // Persist the completed exchange for follow-up questions
+        if (conversationId && answer) {
+          await conversationStore
+            .appendTurns(conversationId, [
+              { role: "user", content: trimmedMessage, timestamp: startTime },
+              { role: "assistant", content: answer, timestamp: Date.now() },
+            ])
+            .catch((err) => {
+              console.error("Failed to store conversation:", err);
+            });
+        }
 
-          try {
-            const json = JSON.parse(data);
-            const delta = json.choices?.[0]?.delta?.content;
-            if (delta) {
-              controller.enqueue(encoder.encode(delta));
-            }
-          } catch {
-            // Ignore malformed SSE lines
-          }
+        if (answerCacheStatus === "miss" && completed && answer) {
+          await answerCache
+            .store(retrievalQuery, queryVector, answerScope, { answer, sources })
+            .catch((err) => {
+              console.error("Failed to cache answer:", err);
+            });
         }
-      },
-      flush() {
-        // Process any remaining buffered data on stream end
-        if (buffer.trim().startsWith("data:")) {
-          const data = buffer.trim().slice(5).trim();
-          if (data && data !== "[DONE]") {
-            try {
-              const json = JSON.parse(data);
-              const delta = json.choices?.[0]?.delta?.content;
-              if (delta) {
-                encoder.encode(delta);
-              }
-            } catch {
-              // Ignore
-            }
-          }
+
+        // Plain text has no error event: fail the stream so a truncated
+        // answer does not look complete
+        if (streamError && !useEventStream) {
+          controller.error(streamError);
+        } else {
+          controller.close();
         }
       },
     });
 
-    // Pipe the OpenAI response through our transform
-    const readable = openaiResponse.body.pipeThrough(transformStream);
-
     return new Response(readable, {
       headers: {
-        "Content-Type": "text/plain; charset=utf-8",
-        "Transfer-Encoding": "chunked",
+        "Content-Type": useEventStream
+          ? `${EVENT_STREAM_CONTENT_TYPE}; charset=utf-8`
+          : "text/plain; charset=utf-8",
+        ...(useEventStream
+          ? { "Cache-Control": "no-cache, no-transform" }
+          : { "Transfer-Encoding": "chunked" }),
         ...getCorsHeaders(request),
         ...rateLimitHeaders,
         "X-Query-Id": queryId,
@@ -530,7 +489,12 @@ export async function POST(request: NextRequest) {
         "X-Intent": classified.intent,
         "X-Retrieval-Ms": retrievalMs.toString(),
         "X-Rerank-Ms": rerankMs.toString(),
+        "X-Rerank": rerank,
         "X-Relevance-Rank": relevanceRank.toString(),
+        "X-Fusion": fusionLabel || "none",
+        "X-Context-Tokens": contextTokens.toString(),
+        "X-Answer-Cache": answerCacheStatus,
+        ...(conversationId ? { "X-Conversation-Id": conversationId } : {}),
       },
     });
   } catch (error) {
@@ -538,55 +502,3 @@ export async function POST(request: NextRequest) {
     return jsonResponse(request, { error: "Internal Server Error", status: 500 }, 500);
   }
 }
-
-/**
- * Computes a 1–5 relevance rank estimating how valuable the response is
- * for an OpenClaw builder. Factors in retrieval quality, coverage,
- * query intent, and whether docs were used vs general fallback.
- *
- *   5 = Direct, high-confidence docs answer to a builder-actionable question
- *   4 = Good docs coverage with solid relevance
- *   3 = Partial docs match or general answer to a relevant topic
- *   2 = Weak match, mostly general knowledge
- *   1 = Off-topic or no useful docs found
- */
-function computeRelevanceRank(
-  bestScore: number,
-  resultCount: number,
-  intent: string,
-  isLowConfidence: boolean,
-): number {
-  let rank = 0;
-
-  // Score component (0–2 points): raw retrieval quality
-  if (bestScore >= 0.75) rank += 2;
-  else if (bestScore >= 0.45) rank += 1.5;
-  else if (bestScore >= 0.25) rank += 1;
-  else if (bestScore >= 0.1) rank += 0.5;
-
-  // Coverage component (0–1 point): how many chunks matched
-  if (resultCount >= 5) rank += 1;
-  else if (resultCount >= 2) rank += 0.5;
-
-  // Intent component (0–1 point): builder-actionable intents score higher
-  if (intent === "lookup" || intent === "troubleshooting") rank += 1;
-  else if (intent === "conceptual") rank += 0.5;
-
-  // Docs vs general penalty (0–1 point)
-  if (!isLowConfidence) rank += 1;
-
-  return Math.max(1, Math.min(5, Math.round(rank)));
-}
-
-/**
- * Log query asynchronously without blocking the response.
- */
-function logQueryAsync(
-  queryId: string,
-  data: Omit<QueryLog, "id">
-): void {
-  const observability = getObservabilityService();
-  observability.logQuery({ id: queryId, ...data }).catch((err) => {
-    console.error("Failed to log query:", err);
-  });
-}
@@ -1,22 +1,84 @@
 /**
  * Health Check Endpoint
- * Returns system status and vector store stats.
+ * Returns system status, vector store stats, the embedding model
+ * the index was built with versus the one queries use, the active and
+ * rollback index namespaces, and the rerank backend with today's
+ * degraded-mode counts.
  */
 import { NextResponse } from "next/server";
-import { DocsStore } from "@/rag/store-upstash";
+import { createVectorStore, getVectorStoreMode } from "@/rag/store-factory";
+import {
+  describeEmbeddingModel,
+  getEmbeddingProvider,
+  isSameEmbeddingModel,
+  LEGACY_INDEX_EMBEDDING,
+  type EmbeddingProvider,
+} from "@/rag/embeddings";
+import { getRerankerName } from "@/rag/reranker";
+import { getObservabilityService } from "@/rag/observability";
+import { getIndexPointer } from "@/rag/active-index";
 
-export const runtime = "edge";
+// Node.js runtime: the local vector store reads from disk
+export const runtime = "nodejs";
+
+const STORE_MODES = {
+  upstash: "upstash-vector",
+  local: "local-file",
+} as const;
 
 export async function GET() {
+  const mode = STORE_MODES[getVectorStoreMode()];
+
   try {
-    const store = new DocsStore();
-    const count = await store.count();
-    return NextResponse.json({ ok: true, chunks: count, mode: "upstash-vector" });
+    const store = createVectorStore();
+    const [count, recorded, stats, pointer] = await Promise.all([
+      store.count(),
+      store.getEmbeddingModel(),
+      getObservabilityService().getQueryStats("day"),
+      getIndexPointer(),
+    ]);
+    const indexed = recorded ?? LEGACY_INDEX_EMBEDDING;
+    const query = getQueryEmbeddings();
+    // Queries are refused when the configured model differs from the index
+    const ok = !!query && isSameEmbeddingModel(indexed, query);
+    return NextResponse.json({
+      ok,
+      chunks: count,
+      mode,
+      // Null before the first blue/green index run
+      index: pointer
+        ? {
+            namespace: pointer.active.namespace,
+            activatedAt: new Date(pointer.active.activatedAt).toISOString(),
+            previous: pointer.previous?.namespace ?? null,
+          }
+        : null,
+      embedding: {
+        index: describeEmbeddingModel(indexed),
+        query: query ? describeEmbeddingModel(query) : null,
+      },
+      rerank: {
+        backend: getRerankerName(),
+        // Today's queries per rerank outcome; null without observability
+        today: stats?.rerank ?? null,
+      },
+    });
   } catch (err) {
     console.error("Health check error:", err);
     return NextResponse.json(
-      { ok: false, error: "Failed to connect to vector store" },
+      { ok: false, error: "Failed to connect to vector store", mode },
       { status: 500 }
     );
   }
 }
+
+/**
+ * The configured query embedding provider, null when it is misconfigured.
+ */
+function getQueryEmbeddings(): EmbeddingProvider | null {
+  try {
+    return getEmbeddingProvider();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Search Endpoint
+ * Returns ranked documentation chunks for a query without generating an answer.
+ * Runs the same classify → retrieve → fuse → rerank pipeline as /api/chat.
+ */
+import { NextRequest } from "next/server";
+import { checkRateLimit, getClientIp } from "@/rag/ratelimit";
+import { isUserStrategy, retrieveDocs, type UserStrategy } from "@/rag/pipeline";
+import { describeFusion, parseFusionOverride } from "@/rag/fusion";
+import { isEmbeddingProviderConfigured } from "@/rag/embeddings";
+
+// Node.js runtime: the local vector store reads from disk
+export const runtime = "nodejs";
+
+const MAX_QUERY_LENGTH = 500;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 25;
+const SNIPPET_LENGTH = 240;
+
+// Query parameters that override the fusion config
+const FUSION_PARAMS = {
+  fusion: "method",
+  k: "k",
+  semanticWeight: "semanticWeight",
+  keywordWeight: "keywordWeight",
+  phraseWeight: "phraseWeight",
+} as const;
+
+const ALLOWED_ORIGINS = [
+  "https://docs.openclaw.ai",
+  "https://claw-docs.openknot.ai",
+];
+
+function getCorsHeaders(request: Request) {
+  const origin = request.headers.get("Origin");
+  const allowedOrigin = origin && ALLOWED_ORIGINS.includes(origin) ? origin : "";
+
+  return {
+    "Access-Control-Allow-Origin": allowedOrigin,
+    "Access-Control-Allow-Methods": "GET, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Expose-Headers": "X-Fusion, X-Rerank",
+    "Vary": "Origin",
+  };
+}
+
+// Handle preflight requests
+export async function OPTIONS(request: NextRequest) {
+  return new Response(null, {
+    status: 204,
+    headers: getCorsHeaders(request),
+  });
+}
+
+function jsonResponse(
+  request: Request,
+  data: object,
+  status = 200,
+  headers: Record<string, string> = {}
+) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...getCorsHeaders(request),
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Builds a short snippet centered on the first matching keyword.
+ */
+function buildSnippet(content: string, keywords: string[]): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  if (text.length <= SNIPPET_LENGTH) return text;
+
+  const lowered = text.toLowerCase();
+  const matchAt = keywords
+    .map((kw) => lowered.indexOf(kw.toLowerCase()))
+    .filter((idx) => idx >= 0)
+    .sort((a, b) => a - b)[0] ?? 0;
+
+  const start = Math.max(0, matchAt - SNIPPET_LENGTH / 4);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * GET /api/search?q=...&limit=10&strategy=auto&path=/gateway/
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    // Rate limiting
+    const headersObj: Record<string, string> = {};
+    request.headers.forEach((value, key) => {
+      headersObj[key] = value;
+    });
+    const clientIp = getClientIp(headersObj);
+    const rateLimitResult = await checkRateLimit(clientIp);
+
+    const rateLimitHeaders: Record<string, string> = {};
+    if (rateLimitResult) {
+      rateLimitHeaders["X-RateLimit-Limit"] = rateLimitResult.limit.toString();
+      rateLimitHeaders["X-RateLimit-Remaining"] =
+        rateLimitResult.remaining.toString();
+      rateLimitHeaders["X-RateLimit-Reset"] = rateLimitResult.reset.toString();
+
+      if (!rateLimitResult.success) {
+        rateLimitHeaders["Retry-After"] = Math.ceil(
+          (rateLimitResult.reset - Date.now()) / 1000
+        ).toString();
+        return jsonResponse(
+          request,
+          { error: "Too many requests. Please try again later.", status: 429 },
+          429,
+          rateLimitHeaders
+        );
+      }
+    }
+
+    // Validate environment
+    if (!isEmbeddingProviderConfigured()) {
+      return jsonResponse(
+        request,
+        { error: "Server configuration error", status: 500 },
+        500,
+        rateLimitHeaders
+      );
+    }
+
+    // Parse query parameters
+    const params = request.nextUrl.searchParams;
+    const query = params.get("q")?.trim() || "";
+    if (!query) {
+      return jsonResponse(
+        request,
+        { error: "q required", status: 400 },
+        400,
+        rateLimitHeaders
+      );
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return jsonResponse(
+        request,
+        {
+          error: `Query too long (max ${MAX_QUERY_LENGTH} characters)`,
+          status: 400,
+        },
+        400,
+        rateLimitHeaders
+      );
+    }
+
+    const limitParam = params.get("limit");
+    const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return jsonResponse(
+        request,
+        { error: `limit must be an integer between 1 and ${MAX_LIMIT}`, status: 400 },
+        400,
+        rateLimitHeaders
+      );
+    }
+
+    let strategy: UserStrategy = "auto";
+    const strategyParam = params.get("strategy");
+    if (strategyParam !== null) {
+      if (!isUserStrategy(strategyParam)) {
+        return jsonResponse(
+          request,
+          { error: "strategy must be one of: auto, hybrid, semantic, keyword", status: 400 },
+          400,
+          rateLimitHeaders
+        );
+      }
+      strategy = strategyParam;
+    }
+
+    const pathPrefixes = params
+      .getAll("path")
+      .map((p) => p.trim())
+      .filter(Boolean)
+      .map((p) => (p.startsWith("/") ? p : `/${p}`));
+
+    const rawFusion: Record<string, string | number> = {};
+    for (const [param, field] of Object.entries(FUSION_PARAMS)) {
+      const value = params.get(param);
+      if (value === null) continue;
+      rawFusion[field] = field === "method" ? value : Number(value);
+    }
+    const fusionOverride = Object.keys(rawFusion).length > 0
+      ? parseFusionOverride(rawFusion)
+      : undefined;
+    if (fusionOverride === null) {
+      return jsonResponse(
+        request,
+        { error: "Invalid fusion parameters", status: 400 },
+        400,
+        rateLimitHeaders
+      );
+    }
+
+    const { classified, sources, retrievalMs, rerankMs, rerank, fusion } = await retrieveDocs(query, {
+      strategy,
+      limit,
+      filter: { pathPrefixes },
+      fusion: fusionOverride,
+    });
+    const fusionLabel = fusion ? describeFusion(fusion) : undefined;
+
+    return jsonResponse(
+      request,
+      {
+        query,
+        intent: classified.intent,
+        strategy: classified.strategy,
+        fusion: fusionLabel || null,
+        rerank,
+        hits: sources.map((hit) => ({
+          id: hit.id,
+          title: hit.title,
+          url: hit.url,
+          path: hit.path,
+          section: hit.section,
+          snippet: buildSnippet(hit.content, classified.keywords),
+          score: hit.score,
+          semanticRank: hit.semanticRank,
+          semanticScore: hit.semanticScore,
+          keywordRank: hit.keywordRank,
+          keywordScore: hit.keywordScore,
+          fusedScore: hit.fusedScore,
+          rerankScore: hit.rerankScore,
+        })),
+        timing: {
+          retrievalMs,
+          rerankMs,
+          totalMs: Date.now() - startTime,
+        },
+      },
+      200,
+      { ...rateLimitHeaders, "X-Fusion": fusionLabel || "none", "X-Rerank": rerank }
+    );
+  } catch (error) {
+    console.error("[Search Error]", error);
+    return jsonResponse(request, { error: "Internal Server Error", status: 500 }, 500);
+  }
+}
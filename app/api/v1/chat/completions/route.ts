@@ -0,0 +1,432 @@
+/**
+ * OpenAI-compatible Chat Completions Endpoint
+ * Exposes the docs RAG pipeline behind the /v1/chat/completions contract
+ * so existing OpenAI SDK clients can talk to the docs bot unchanged.
+ * Retrieved sources are returned in the non-standard `sources` field.
+ *
+ * Environment variables:
+ *   CHAT_COMPLETIONS_API_KEYS - Comma-separated API keys accepted as
+ *     `Authorization: Bearer <key>` (the endpoint rejects all requests when unset)
+ */
+import { createHash, timingSafeEqual } from "node:crypto";
+import { NextRequest } from "next/server";
+import { checkRateLimit, getClientIp } from "@/rag/ratelimit";
+import { runRagPipeline, type RagSource } from "@/rag/pipeline";
+import { getDefaultModel, getModelConfig, isAllowedModel } from "@/rag/chat-models";
+import { isEmbeddingProviderConfigured } from "@/rag/embeddings";
+import {
+  streamModelChat,
+  type ChatStreamChunk,
+  type ChatUsage,
+} from "@/rag/chat-providers";
+import { generateQueryId, logQueryAsync } from "@/rag/observability";
+import { describeFusion, parseFusionOverride } from "@/rag/fusion";
+import { AnswerCache, replayAnswer, type AnswerCacheStatus } from "@/rag/answer-cache";
+import {
+  packHistory,
+  parseHistory,
+  rewriteFollowUp,
+  type ConversationTurn,
+} from "@/rag/conversation";
+
+// Node.js runtime: the local vector store reads from disk
+export const runtime = "nodejs";
+
+const MAX_MESSAGE_LENGTH = 2000;
+const HISTORY_TOKEN_BUDGET = 2000;
+
+const ALLOWED_ORIGINS = [
+  "https://docs.openclaw.ai",
+  "https://claw-docs.openknot.ai",
+];
+
+function getCorsHeaders(request: Request) {
+  const origin = request.headers.get("Origin");
+  const allowedOrigin = origin && ALLOWED_ORIGINS.includes(origin) ? origin : "";
+
+  return {
+    "Access-Control-Allow-Origin": allowedOrigin,
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Expose-Headers": "X-Query-Id, X-Fusion, X-Context-Tokens, X-Answer-Cache, X-Rerank",
+    "Vary": "Origin",
+  };
+}
+
+// Handle preflight requests
+export async function OPTIONS(request: NextRequest) {
+  return new Response(null, {
+    status: 204,
+    headers: getCorsHeaders(request),
+  });
+}
+
+function getApiKeys(): string[] {
+  return (process.env.CHAT_COMPLETIONS_API_KEYS || "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Check the bearer token against the configured API keys.
+ * Keys are compared as hashes in constant time.
+ */
+function isAuthorized(request: Request): boolean {
+  const match = request.headers.get("Authorization")?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  const given = digest(match[1].trim());
+  return getApiKeys().some((key) => timingSafeEqual(digest(key), given));
+}
+
+/**
+ * Return an error in the OpenAI API error shape.
+ */
+function errorResponse(
+  request: Request,
+  message: string,
+  status: number,
+  type: string,
+  headers: Record<string, string> = {}
+) {
+  return new Response(
+    JSON.stringify({ error: { message, type, param: null, code: null } }),
+    {
+      status,
+      headers: {
+        "Content-Type": "application/json",
+        ...getCorsHeaders(request),
+        ...headers,
+      },
+    }
+  );
+}
+
+/**
+ * Flatten OpenAI message content (string or text parts) into plain text.
+ */
+function normalizeMessages(raw: unknown): unknown {
+  if (!Array.isArray(raw)) return raw;
+
+  return raw.map((item) => {
+    if (!item || typeof item !== "object") return item;
+    const { role, content } = item as { role?: unknown; content?: unknown };
+    if (!Array.isArray(content)) return { role, content };
+
+    const text = content
+      .filter((part) => part?.type === "text" && typeof part.text === "string")
+      .map((part) => part.text)
+      .join("\n");
+    return { role, content: text };
+  });
+}
+
+function toSourcePayload(sources: RagSource[]) {
+  return sources.map((s) => ({
+    id: s.id,
+    title: s.title,
+    url: s.url,
+    path: s.path,
+    section: s.section,
+    score: s.score,
+  }));
+}
+
+function toUsagePayload(usage: ChatUsage | null) {
+  return {
+    prompt_tokens: usage?.promptTokens ?? 0,
+    completion_tokens: usage?.completionTokens ?? 0,
+    total_tokens: usage?.totalTokens ?? 0,
+  };
+}
+
+export async function POST(request: NextRequest) {
+  const queryId = generateQueryId();
+  const startTime = Date.now();
+
+  try {
+    if (!isAuthorized(request)) {
+      return errorResponse(
+        request,
+        "Invalid or missing API key",
+        401,
+        "invalid_request_error",
+        { "WWW-Authenticate": "Bearer" }
+      );
+    }
+
+    // Rate limiting
+    const headersObj: Record<string, string> = {};
+    request.headers.forEach((value, key) => {
+      headersObj[key] = value;
+    });
+    const clientIp = getClientIp(headersObj);
+    const rateLimitResult = await checkRateLimit(clientIp);
+
+    const rateLimitHeaders: Record<string, string> = {};
+    if (rateLimitResult) {
+      rateLimitHeaders["X-RateLimit-Limit"] = rateLimitResult.limit.toString();
+      rateLimitHeaders["X-RateLimit-Remaining"] =
+        rateLimitResult.remaining.toString();
+      rateLimitHeaders["X-RateLimit-Reset"] = rateLimitResult.reset.toString();
+
+      if (!rateLimitResult.success) {
+        rateLimitHeaders["Retry-After"] = Math.ceil(
+          (rateLimitResult.reset - Date.now()) / 1000
+        ).toString();
+        return errorResponse(
+          request,
+          "Too many requests. Please try again later.",
+          429,
+          "rate_limit_error",
+          rateLimitHeaders
+        );
+      }
+    }
+
+    // Validate environment
+    const defaultModel = getDefaultModel();
+    if (!isEmbeddingProviderConfigured() || !defaultModel) {
+      return errorResponse(request, "Server configuration error", 500, "server_error");
+    }
+
+    // Parse body
+    let body: {
+      messages?: unknown;
+      model?: unknown;
+      stream?: unknown;
+      fusion?: unknown;
+      answerCache?: unknown;
+    };
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(request, "Invalid JSON", 400, "invalid_request_error");
+    }
+
+    let model = defaultModel;
+    if (body?.model !== undefined) {
+      if (!isAllowedModel(body.model)) {
+        return errorResponse(
+          request,
+          `The model '${String(body.model)}' does not exist`,
+          404,
+          "invalid_request_error"
+        );
+      }
+      model = body.model;
+    }
+    const stream = body?.stream === true;
+
+    // Non-standard extension for fusion experiments
+    const fusionOverride = body?.fusion === undefined ? undefined : parseFusionOverride(body.fusion);
+    if (fusionOverride === null) {
+      return errorResponse(request, "Invalid fusion config", 400, "invalid_request_error");
+    }
+
+    const turns = parseHistory(normalizeMessages(body?.messages));
+    const last = turns?.[turns.length - 1];
+    if (!turns || !last || last.role !== "user") {
+      return errorResponse(
+        request,
+        "messages must end with a user message",
+        400,
+        "invalid_request_error"
+      );
+    }
+
+    const question = last.content.trim();
+    if (!question || question.length > MAX_MESSAGE_LENGTH) {
+      return errorResponse(
+        request,
+        `The last user message must be 1-${MAX_MESSAGE_LENGTH} characters`,
+        400,
+        "invalid_request_error"
+      );
+    }
+
+    const history: ConversationTurn[] = turns.slice(0, -1);
+    const retrievalQuery = rewriteFollowUp(question, history);
+
+    const rag = await runRagPipeline(retrievalQuery, {
+      fusion: fusionOverride,
+      contextTokens: getModelConfig(model)?.contextTokens,
+    });
+    const fusionLabel = rag.fusion ? describeFusion(rag.fusion) : undefined;
+
+    // Non-standard extension: `answerCache: false` bypasses the answer cache,
+    // as does a fusion override
+    const answerCache = new AnswerCache();
+    const answerScope = { model, strategy: rag.classified.strategy };
+    const cacheable =
+      answerCache.enabled &&
+      body?.answerCache !== false &&
+      !fusionOverride &&
+      history.length === 0 &&
+      !rag.isLowConfidence;
+    const cached = cacheable
+      ? await answerCache.lookup(retrievalQuery, rag.queryVector, answerScope)
+      : null;
+    const answerCacheStatus: AnswerCacheStatus = !cacheable ? "bypass" : cached ? "hit" : "miss";
+
+    let completion: AsyncGenerator<ChatStreamChunk>;
+    try {
+      completion = cached
+        ? replayAnswer(cached.answer.answer)
+        : await streamModelChat(getModelConfig(model)!, [
+            { role: "system", content: rag.systemPrompt },
+            ...packHistory(history, HISTORY_TOKEN_BUDGET),
+            { role: "user", content: question },
+          ]);
+    } catch (err) {
+      return errorResponse(
+        request,
+        err instanceof Error ? err.message : "LLM provider error",
+        502,
+        "api_error",
+        rateLimitHeaders
+      );
+    }
+
+    // Log successful query (async, non-blocking)
+    logQueryAsync(queryId, {
+      timestamp: startTime,
+      query: question,
+      retrievalQuery: retrievalQuery !== question ? retrievalQuery : undefined,
+      intent: rag.classified.intent,
+      strategy: rag.classified.strategy,
+      retrievalMs: rag.retrievalMs,
+      rerankMs: rag.rerankMs,
+      rerank: rag.rerank,
+      bm25Cache: rag.bm25Cache,
+      embeddingCache: rag.embeddingCache,
+      answerCache: answerCacheStatus,
+      fusion: fusionLabel,
+      contextTokens: rag.contextTokens,
+      totalMs: Date.now() - startTime,
+      resultCount: rag.sources.length,
+      topChunkIds: rag.sources.slice(0, 5).map((r) => r.id),
+      topScores: rag.topScores.slice(0, 5),
+      rawScore: rag.bestRawScore ?? undefined,
+      model,
+      success: true,
+      clientIp,
+    });
+
+    const id = `chatcmpl-${queryId}`;
+    const created = Math.floor(startTime / 1000);
+    const sources = cached ? cached.answer.sources : toSourcePayload(rag.sources);
+    const responseHeaders = {
+      ...getCorsHeaders(request),
+      ...rateLimitHeaders,
+      "X-Query-Id": queryId,
+      "X-Fusion": fusionLabel || "none",
+      "X-Context-Tokens": rag.contextTokens.toString(),
+      "X-Answer-Cache": answerCacheStatus,
+      "X-Rerank": rag.rerank,
+    };
+
+    const cacheAnswer = (content: string) => {
+      if (answerCacheStatus !== "miss" || !content) return Promise.resolve();
+      return answerCache
+        .store(retrievalQuery, rag.queryVector, answerScope, { answer: content, sources })
+        .catch((err) => {
+          console.error("Failed to cache answer:", err);
+        });
+    };
+
+    if (!stream) {
+      let content = "";
+      let usage: ChatUsage | null = null;
+      for await (const chunk of completion) {
+        if (chunk.content) content += chunk.content;
+        if (chunk.usage) usage = chunk.usage;
+      }
+      await cacheAnswer(content);
+
+      return new Response(
+        JSON.stringify({
+          id,
+          object: "chat.completion",
+          created,
+          model,
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content },
+              finish_reason: "stop",
+            },
+          ],
+          usage: toUsagePayload(usage),
+          sources,
+        }),
+        {
+          headers: {
+            "Content-Type": "application/json",
+            ...responseHeaders,
+          },
+        }
+      );
+    }
+
+    // Re-emit the completion as spec-shaped chunks
+    const encoder = new TextEncoder();
+    const readable = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (payload: object | string) => {
+          const data = typeof payload === "string" ? payload : JSON.stringify(payload);
+          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+        };
+        const chunk = (delta: object, finishReason: string | null, extra = {}) => ({
+          id,
+          object: "chat.completion.chunk",
+          created,
+          model,
+          choices: [{ index: 0, delta, finish_reason: finishReason }],
+          ...extra,
+        });
+
+        // Sources ride along on the first chunk
+        send(chunk({ role: "assistant", content: "" }, null, { sources }));
+
+        let content = "";
+        let usage: ChatUsage | null = null;
+        try {
+          for await (const part of completion) {
+            if (part.content) {
+              content += part.content;
+              send(chunk({ content: part.content }, null));
+            }
+            if (part.usage) usage = part.usage;
+          }
+          send(chunk({}, "stop", { usage: toUsagePayload(usage) }));
+          await cacheAnswer(content);
+        } catch (err) {
+          console.error("[Stream Error]", err);
+          send({
+            error: {
+              message: err instanceof Error ? err.message : "Stream failed",
+              type: "api_error",
+            },
+          });
+        }
+
+        send("[DONE]");
+        controller.close();
+      },
+    });
+
+    return new Response(readable, {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        ...responseHeaders,
+      },
+    });
+  } catch (error) {
+    console.error("[Completions Error]", error);
+    return errorResponse(request, "Internal Server Error", 500, "server_error");
+  }
+}
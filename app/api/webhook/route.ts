@@ -120,13 +120,18 @@ export async function POST(request: NextRequest) {
     indexingStatus.isIndexing = false;
 
     if (result.success) {
-      console.log(`Indexing complete: ${result.chunksCreated} chunks from ${result.pagesProcessed} pages`);
+      console.log(
+        `Indexing complete (${result.mode}): ${result.chunksCreated} chunks from ${result.pagesProcessed} pages, ${result.chunksEmbedded} embedded`
+      );
       return NextResponse.json({
         status: "success",
         message: "Documentation re-indexed successfully",
         result: {
+          mode: result.mode,
           pagesProcessed: result.pagesProcessed,
           chunksCreated: result.chunksCreated,
+          chunksEmbedded: result.chunksEmbedded,
+          chunksDeleted: result.chunksDeleted,
           duration: result.duration,
         },
       });
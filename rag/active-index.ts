@@ -0,0 +1,111 @@
+/**
+ * Active Index pointer for docs-chat RAG pipeline.
+ * Indexing writes the vectors to the inactive Upstash Vector namespace
+ * ("blue" or "green") and the BM25 index under a new version, then flips
+ * this pointer with a single SET, so queries never see a partial index.
+ * The version it replaced is kept as `previous` for rollback until the
+ * next run is activated.
+ */
+import { Redis } from "@upstash/redis";
+
+/** One complete index: the vector namespace and its BM25 version */
+export interface IndexSlot {
+  /** Upstash Vector namespace; "" is the default namespace used before blue/green */
+  namespace: string;
+  /** BM25 term index version, null when keyword search was not indexed */
+  bm25Version: string | null;
+  chunkCount: number;
+  activatedAt: number;
+}
+
+export interface IndexPointer {
+  active: IndexSlot;
+  previous: IndexSlot | null;
+}
+
+/** Namespaces indexing alternates between */
+export const INDEX_NAMESPACES = ["blue", "green"] as const;
+
+const ACTIVE_INDEX_KEY = "index:active";
+
+function getRedis(): Redis | null {
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+  if (!url || !token) {
+    return null;
+  }
+
+  return new Redis({ url, token });
+}
+
+/**
+ * Check whether the pointer can be stored (Upstash Redis is configured).
+ */
+export function isIndexPointerEnabled(): boolean {
+  return getRedis() !== null;
+}
+
+/**
+ * Get the active index pointer.
+ * Null without Redis or before the first blue/green index run.
+ */
+export async function getIndexPointer(): Promise<IndexPointer | null> {
+  const redis = getRedis();
+  if (!redis) return null;
+
+  const pointer = await redis.get<string | IndexPointer>(ACTIVE_INDEX_KEY);
+  if (!pointer) return null;
+  return typeof pointer === "string" ? (JSON.parse(pointer) as IndexPointer) : pointer;
+}
+
+/**
+ * Get the vector namespace queries should read.
+ */
+export async function getActiveNamespace(): Promise<string> {
+  return (await getIndexPointer())?.active.namespace ?? "";
+}
+
+/**
+ * Pick the namespace the next index run writes to: the one not serving queries.
+ */
+export function getInactiveNamespace(active: IndexSlot | null): string {
+  return active?.namespace === INDEX_NAMESPACES[0] ? INDEX_NAMESPACES[1] : INDEX_NAMESPACES[0];
+}
+
+/**
+ * Make a slot the active index, keeping the current one for rollback.
+ */
+export async function activateIndex(
+  next: IndexSlot,
+  current: IndexSlot | null
+): Promise<void> {
+  const redis = getRedis();
+  if (!redis) {
+    throw new Error("Upstash Redis is required to activate an index");
+  }
+
+  const pointer: IndexPointer = { active: next, previous: current };
+  await redis.set(ACTIVE_INDEX_KEY, pointer);
+}
+
+/**
+ * Swap the active and previous index.
+ */
+export async function rollbackIndex(): Promise<IndexPointer> {
+  const redis = getRedis();
+  const pointer = await getIndexPointer();
+  if (!redis || !pointer) {
+    throw new Error("No active index pointer to roll back");
+  }
+  if (!pointer.previous) {
+    throw new Error("No previous index is kept to roll back to");
+  }
+
+  const rolledBack: IndexPointer = {
+    active: { ...pointer.previous, activatedAt: Date.now() },
+    previous: pointer.active,
+  };
+  await redis.set(ACTIVE_INDEX_KEY, rolledBack);
+  return rolledBack;
+}
@@ -0,0 +1,259 @@
+/**
+ * Semantic Answer Cache for docs-chat RAG pipeline.
+ * Replays a stored answer when a question repeats, or when its embedding is
+ * close enough to one already answered. Entries are scoped by index version,
+ * chat model and retrieval strategy, so re-indexing starts an empty cache.
+ *
+ * Environment variables:
+ *   ANSWER_CACHE_TTL - Entry lifetime in seconds (default: 86400, 0 disables)
+ *   ANSWER_CACHE_SIMILARITY - Minimum query cosine similarity for a near-duplicate hit (default: 0.95)
+ *   ANSWER_CACHE_MAX_ENTRIES - Entries kept per scope before the oldest are evicted (default: 200)
+ */
+import { Redis } from "@upstash/redis";
+import type { ChatStreamChunk } from "./chat-providers";
+import type { RetrievalStrategy } from "./classifier";
+import { normalizeQuery } from "./embedding-cache";
+import { getIndexVersion } from "./index-version";
+
+export type AnswerCacheStatus = "hit" | "miss" | "bypass";
+
+export interface AnswerCacheScope {
+  model: string;
+  strategy: RetrievalStrategy;
+}
+
+export interface CachedSource {
+  id: string;
+  title: string;
+  url: string;
+  path: string;
+  section?: string;
+  score: number;
+}
+
+export interface CachedAnswer {
+  query: string;
+  answer: string;
+  sources: CachedSource[];
+  createdAt: number;
+}
+
+export interface AnswerLookup {
+  answer: CachedAnswer;
+  /** Query similarity of the match, 1 for an exact repeat */
+  similarity: number;
+}
+
+// Redis keys of one scope
+interface ScopeKeys {
+  entries: string;
+  vectors: string;
+  order: string;
+}
+
+const KEY_PREFIX = "answers:";
+
+const DEFAULT_TTL_SECONDS = 60 * 60 * 24; // 24 hours
+const DEFAULT_SIMILARITY = 0.95;
+const DEFAULT_MAX_ENTRIES = 200;
+
+// Characters per replayed delta
+const REPLAY_CHUNK_CHARS = 64;
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0
+    ? value
+    : fallback;
+}
+
+/**
+ * Redis-backed store of answered questions.
+ * Near-duplicate lookups compare the query embedding against every entry in
+ * the scope; vectors are stored int8-quantized to keep that read small.
+ */
+export class AnswerCache {
+  private redis: Redis | null = null;
+  private readonly ttlSeconds = readNumber("ANSWER_CACHE_TTL", DEFAULT_TTL_SECONDS);
+  private readonly similarity = readNumber("ANSWER_CACHE_SIMILARITY", DEFAULT_SIMILARITY);
+  private readonly maxEntries = readNumber("ANSWER_CACHE_MAX_ENTRIES", DEFAULT_MAX_ENTRIES);
+
+  constructor() {
+    const url = process.env.UPSTASH_REDIS_REST_URL;
+    const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+    if (url && token && this.ttlSeconds > 0) {
+      this.redis = new Redis({ url, token });
+    }
+  }
+
+  get enabled(): boolean {
+    return this.redis !== null;
+  }
+
+  /**
+   * Find a stored answer for the query: an exact repeat first, then the
+   * most similar earlier query above the similarity threshold.
+   */
+  async lookup(
+    query: string,
+    queryVector: number[] | undefined,
+    scope: AnswerCacheScope
+  ): Promise<AnswerLookup | null> {
+    if (!this.redis) return null;
+
+    try {
+      const keys = await this.scopeKeys(scope);
+      const id = await queryId(query);
+
+      const exact = await this.redis.hget<string | CachedAnswer>(keys.entries, id);
+      if (exact) {
+        const answer = parseEntry(exact);
+        if (!this.isExpired(answer)) {
+          return { answer, similarity: 1 };
+        }
+        await this.evict(keys, [id]);
+      }
+      if (!queryVector?.length) return null;
+
+      const vectors = await this.redis.hgetall<Record<string, string>>(keys.vectors);
+      let bestId: string | null = null;
+      let bestSimilarity = this.similarity;
+      for (const [entryId, encoded] of Object.entries(vectors ?? {})) {
+        const similarity = cosineSimilarity(queryVector, decodeVector(encoded));
+        if (similarity >= bestSimilarity) {
+          bestId = entryId;
+          bestSimilarity = similarity;
+        }
+      }
+      if (!bestId) return null;
+
+      const stored = await this.redis.hget<string | CachedAnswer>(keys.entries, bestId);
+      if (!stored) return null;
+
+      const answer = parseEntry(stored);
+      if (this.isExpired(answer)) {
+        await this.evict(keys, [bestId]);
+        return null;
+      }
+      return { answer, similarity: bestSimilarity };
+    } catch (error) {
+      console.error("Answer cache lookup failed:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Store an answer, evicting expired entries and the oldest beyond the
+   * scope's bound. The scope's keys expire with their newest entry.
+   */
+  async store(
+    query: string,
+    queryVector: number[] | undefined,
+    scope: AnswerCacheScope,
+    answer: Omit<CachedAnswer, "query" | "createdAt">
+  ): Promise<void> {
+    if (!this.redis) return;
+
+    const keys = await this.scopeKeys(scope);
+    const id = await queryId(query);
+    const createdAt = Date.now();
+    const entry: CachedAnswer = { query, ...answer, createdAt };
+
+    const pipeline = this.redis.pipeline();
+    pipeline.hset(keys.entries, { [id]: JSON.stringify(entry) });
+    if (queryVector?.length) {
+      pipeline.hset(keys.vectors, { [id]: encodeVector(queryVector) });
+    }
+    pipeline.zadd(keys.order, { score: createdAt, member: id });
+    for (const key of Object.values(keys)) {
+      pipeline.expire(key, this.ttlSeconds);
+    }
+    pipeline.zcount(keys.order, "-inf", createdAt - this.ttlSeconds * 1000);
+    pipeline.zcard(keys.order);
+    const results = await pipeline.exec();
+
+    // Expired entries are the oldest, so one range covers both
+    const [expired, size] = results.slice(-2) as [number, number];
+    const count = Math.max(expired, size - this.maxEntries);
+    if (count <= 0) return;
+
+    const evicted = await this.redis.zrange<string[]>(keys.order, 0, count - 1);
+    await this.evict(keys, evicted);
+  }
+
+  private isExpired(answer: CachedAnswer): boolean {
+    return answer.createdAt + this.ttlSeconds * 1000 <= Date.now();
+  }
+
+  private async evict(keys: ScopeKeys, ids: string[]): Promise<void> {
+    if (!this.redis || ids.length === 0) return;
+
+    const eviction = this.redis.pipeline();
+    eviction.hdel(keys.entries, ...ids);
+    eviction.hdel(keys.vectors, ...ids);
+    eviction.zrem(keys.order, ...ids);
+    await eviction.exec();
+  }
+
+  private async scopeKeys(scope: AnswerCacheScope): Promise<ScopeKeys> {
+    const version = (await getIndexVersion()) ?? "0";
+    const base = `${KEY_PREFIX}${version}:${scope.model}:${scope.strategy}`;
+    return {
+      entries: `${base}:entries`,
+      vectors: `${base}:vectors`,
+      order: `${base}:order`,
+    };
+  }
+}
+
+/**
+ * Replay a stored answer as a completion stream.
+ * No usage is reported: the model was not called.
+ */
+export async function* replayAnswer(answer: string): AsyncGenerator<ChatStreamChunk> {
+  for (let i = 0; i < answer.length; i += REPLAY_CHUNK_CHARS) {
+    yield { content: answer.slice(i, i + REPLAY_CHUNK_CHARS) };
+  }
+}
+
+// Upstash may return parsed JSON objects or strings
+function parseEntry(value: string | CachedAnswer): CachedAnswer {
+  return typeof value === "string" ? (JSON.parse(value) as CachedAnswer) : value;
+}
+
+async function queryId(query: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(normalizeQuery(query))
+  );
+  return Array.from(new Uint8Array(hashBuffer).slice(0, 12))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Encode a vector as base64 int8, scaled by its largest component.
+ * Cosine similarity is scale-invariant, so the scale is not stored.
+ */
+function encodeVector(vector: number[]): string {
+  const max = Math.max(...vector.map(Math.abs)) || 1;
+  const bytes = Int8Array.from(vector, (v) => Math.round((v / max) * 127));
+  return Buffer.from(bytes.buffer).toString("base64");
+}
+
+function decodeVector(encoded: string): number[] {
+  return Array.from(new Int8Array(new Uint8Array(Buffer.from(encoded, "base64")).buffer));
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
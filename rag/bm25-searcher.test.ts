@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, describe, expect, mock, test } from "bun:test";
+import { buildTermIndex, serializeTermIndex } from "./bm25-searcher";
+
+// One document per term, plus one shared by every query below
+const docs = [
+  { id: "shared-doc", title: "Shared", content: "shared" },
+  ...Array.from({ length: 6000 }, (_, i) => ({ id: `doc-${i}`, title: "", content: `term${i}` })),
+];
+
+// Redis holding only a legacy single-key index
+const stored: Record<string, string> = {
+  "index:version": "1",
+  "bm25:active": "legacy",
+  "bm25:index": serializeTermIndex(buildTermIndex(docs)),
+};
+
+mock.module("@upstash/redis", () => ({
+  Redis: class {
+    async get(key: string) {
+      return stored[key] ?? null;
+    }
+  },
+}));
+
+const { getBM25Searcher } = await import("./bm25-searcher");
+
+const terms = (from: number, to: number) =>
+  Array.from({ length: to - from }, (_, i) => `term${from + i}`);
+
+describe("getBM25Searcher", () => {
+  beforeAll(() => {
+    process.env.UPSTASH_REDIS_REST_URL = "https://redis.test";
+    process.env.UPSTASH_REDIS_REST_TOKEN = "token";
+  });
+
+  afterAll(() => {
+    delete process.env.UPSTASH_REDIS_REST_URL;
+    delete process.env.UPSTASH_REDIS_REST_TOKEN;
+  });
+
+  test("serves repeated query terms from the cache", async () => {
+    await getBM25Searcher(["shared", "term0"]);
+    const { cache } = await getBM25Searcher(["shared", "term0"]);
+    expect(cache.hit).toBe(true);
+  });
+
+  test("scores every query term after the cache is reset", async () => {
+    await getBM25Searcher(["shared", ...terms(0, 4990)]);
+
+    // Pushes the cache past its limit while "shared" is already cached
+    const query = ["shared", ...terms(5000, 5020)];
+    const { searcher, cache } = await getBM25Searcher(query);
+    expect(cache.hit).toBe(false);
+
+    const ids = searcher!.search(query.join(" "), 100).map((r) => r.id);
+    expect(ids).toContain("shared-doc");
+    expect(ids).toContain("doc-5000");
+
+    expect((await getBM25Searcher(query)).cache.hit).toBe(true);
+  });
+});
@@ -3,6 +3,9 @@
  * Implements the classic probabilistic retrieval model for exact term matching.
  */
 import { Redis } from "@upstash/redis";
+import { getIndexVersion } from "./index-version";
+import { getIndexPointer } from "./active-index";
+import { tokenize } from "./tokenizer";
 
 export interface TermPosting {
   id: string;
@@ -22,20 +25,42 @@ export interface BM25Result {
   score: number;
 }
 
+export interface BM25CacheStatus {
+  /** Whether this request was served without loading postings from Redis */
+  hit: boolean;
+  /** Process-level totals since the instance started */
+  hits: number;
+  misses: number;
+}
+
+// Redis key layout. Each index version lives under its own prefix:
+//   bm25:<version>:meta          hash  totalDocs, avgDocLength, uniqueTerms
+//   bm25:<version>:doclens       hash  chunk id -> token count
+//   bm25:<version>:terms:<n>     hash  term -> postings JSON (n = term hash bucket)
+// The active index pointer (see active-index) names the version queries read;
+// bm25:active is its predecessor, still read before the first pointer flip.
+const KEYS = {
+  ACTIVE: "bm25:active",
+  LEGACY_INDEX: "bm25:index",
+} as const;
+
+// Version name of the pre-sharding single-key index
+const LEGACY_VERSION = "legacy";
+
+// Number of term hash buckets per index version
+const TERM_BUCKETS = 256;
+
+// Approximate payload size per Redis pipeline when writing an index
+const WRITE_BATCH_BYTES = 512 * 1024;
+
+// Cached terms (with or without postings) per process before the cache
+// is dropped and refilled
+const MAX_CACHED_TERMS = 5000;
+
 // BM25 parameters (tuned for documentation)
 const DEFAULT_K1 = 1.5;  // Term frequency saturation
 const DEFAULT_B = 0.75;  // Length normalization
 
-// Stop words to filter during tokenization
-const STOP_WORDS = new Set([
-  "a", "an", "the", "is", "are", "was", "were", "be", "been", "being",
-  "have", "has", "had", "do", "does", "did", "will", "would", "could",
-  "should", "may", "might", "must", "shall", "can", "need", "to", "of",
-  "in", "for", "on", "with", "at", "by", "from", "as", "into", "through",
-  "and", "but", "if", "or", "because", "until", "while", "it", "this",
-  "that", "these", "those", "i", "me", "my", "we", "you", "your",
-]);
-
 /**
  * BM25 Searcher for keyword-based retrieval.
  */
@@ -54,7 +79,7 @@ export class BM25Searcher {
    * Search for documents matching the query terms.
    */
   search(query: string, limit: number = 20): BM25Result[] {
-    const tokens = this.tokenize(query);
+    const tokens = tokenize(query);
     if (tokens.length === 0) {
       return [];
     }
@@ -96,9 +121,10 @@ export class BM25Searcher {
   /**
    * Search for documents containing an exact phrase.
    * Uses position data for proximity matching.
+   * With `fallback` off, documents missing any phrase token are never returned.
    */
-  searchPhrase(phrase: string, limit: number = 20): BM25Result[] {
-    const tokens = this.tokenize(phrase);
+  searchPhrase(phrase: string, limit: number = 20, fallback: boolean = true): BM25Result[] {
+    const tokens = tokenize(phrase);
     if (tokens.length < 2) {
       return this.search(phrase, limit);
     }
@@ -107,7 +133,7 @@ export class BM25Searcher {
     const candidateDocs = this.findDocsWithAllTokens(tokens);
     if (candidateDocs.length === 0) {
       // Fall back to regular search if no exact matches
-      return this.search(phrase, limit);
+      return fallback ? this.search(phrase, limit) : [];
     }
 
     const scores = new Map<string, number>();
@@ -125,6 +151,27 @@ export class BM25Searcher {
       .slice(0, limit);
   }
 
+  /**
+   * Search for documents matching any of the quoted phrases.
+   */
+  searchPhrases(phrases: string[], limit: number = 20): BM25Result[] {
+    return dedupeById(
+      phrases.flatMap((phrase) => this.searchPhrase(phrase, limit, false))
+    ).slice(0, limit);
+  }
+
+  /**
+   * Search with quoted phrases ranked ahead of plain term matches.
+   */
+  searchWithPhrases(query: string, phrases: string[], limit: number = 20): BM25Result[] {
+    const termResults = this.search(query, limit);
+    if (phrases.length === 0) {
+      return termResults;
+    }
+
+    return dedupeById([...this.searchPhrases(phrases, limit), ...termResults]).slice(0, limit);
+  }
+
   /**
    * Find documents containing all query tokens.
    */
@@ -206,17 +253,18 @@ export class BM25Searcher {
     const baseScore = this.search(tokens.join(" "), 1)[0]?.score || 0;
     return baseScore * (1 + spanPenalty);
   }
+}
 
-  /**
-   * Tokenize text into searchable terms.
-   */
-  private tokenize(text: string): string[] {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s\-_]/g, " ")
-      .split(/\s+/)
-      .filter(w => w.length > 1 && !STOP_WORDS.has(w));
-  }
+/**
+ * Keep the first occurrence of each document id.
+ */
+function dedupeById(results: BM25Result[]): BM25Result[] {
+  const seen = new Set<string>();
+  return results.filter((r) => {
+    if (seen.has(r.id)) return false;
+    seen.add(r.id);
+    return true;
+  });
 }
 
 /**
@@ -230,11 +278,7 @@ export function buildTermIndex(
   let totalLength = 0;
 
   for (const chunk of chunks) {
-    const text = `${chunk.title} ${chunk.content}`.toLowerCase();
-    const tokens = text
-      .replace(/[^\w\s\-_]/g, " ")
-      .split(/\s+/)
-      .filter(w => w.length > 1 && !STOP_WORDS.has(w));
+    const tokens = tokenize(`${chunk.title} ${chunk.content}`);
 
     docLengths.set(chunk.id, tokens.length);
     totalLength += tokens.length;
@@ -298,39 +342,235 @@ export function deserializeTermIndex(data: string | object): TermIndex {
   };
 }
 
-/**
- * Store term index in Upstash Redis.
- */
-export async function storeTermIndex(index: TermIndex): Promise<void> {
+function getRedis(): Redis | null {
   const url = process.env.UPSTASH_REDIS_REST_URL;
   const token = process.env.UPSTASH_REDIS_REST_TOKEN;
 
   if (!url || !token) {
+    return null;
+  }
+
+  return new Redis({ url, token });
+}
+
+function versionKeys(version: string) {
+  const prefix = `bm25:${version}`;
+  return {
+    meta: `${prefix}:meta`,
+    docLengths: `${prefix}:doclens`,
+    bucket: (n: number) => `${prefix}:terms:${n}`,
+  };
+}
+
+/**
+ * Map a term to its hash bucket (FNV-1a).
+ */
+function termBucket(term: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % TERM_BUCKETS;
+}
+
+/**
+ * Upstash may return parsed JSON or strings depending on how values were stored.
+ */
+function parseStored<T>(value: unknown): T {
+  return (typeof value === "string" ? JSON.parse(value) : value) as T;
+}
+
+/**
+ * Store term index in Upstash Redis.
+ * Writes the sharded layout under a fresh version prefix and returns the
+ * version; readers switch to it when the active index pointer is flipped.
+ * Returns null without Redis.
+ */
+export async function storeTermIndex(index: TermIndex): Promise<string | null> {
+  const redis = getRedis();
+
+  if (!redis) {
     console.warn("Upstash Redis not configured, skipping BM25 index storage");
+    return null;
+  }
+
+  const version = Date.now().toString(36);
+  const keys = versionKeys(version);
+
+  // Group postings by bucket so each bucket is one HSET
+  const buckets = new Map<number, Record<string, string>>();
+  for (const [term, postings] of index.terms) {
+    const n = termBucket(term);
+    const bucket = buckets.get(n) || {};
+    bucket[term] = JSON.stringify(postings);
+    buckets.set(n, bucket);
+  }
+
+  const writes: Array<{ key: string; fields: Record<string, string | number> }> = [];
+  for (const [n, fields] of buckets) {
+    writes.push({ key: keys.bucket(n), fields });
+  }
+  const docLengths = Object.fromEntries(index.docLengths);
+  if (index.docLengths.size > 0) {
+    writes.push({ key: keys.docLengths, fields: docLengths });
+  }
+
+  // Write in size-bounded pipelines to stay under request limits
+  let pipeline = redis.pipeline();
+  let pendingBytes = 0;
+  for (const write of writes) {
+    pipeline.hset(write.key, write.fields);
+    pendingBytes += JSON.stringify(write.fields).length;
+    if (pendingBytes >= WRITE_BATCH_BYTES) {
+      await pipeline.exec();
+      pipeline = redis.pipeline();
+      pendingBytes = 0;
+    }
+  }
+  if (pendingBytes > 0) {
+    await pipeline.exec();
+  }
+
+  // Meta is written last: its presence marks the version as complete
+  await redis.hset(keys.meta, {
+    totalDocs: index.totalDocs,
+    avgDocLength: index.avgDocLength,
+    uniqueTerms: index.terms.size,
+  });
+
+  console.log(`Stored BM25 index v${version} with ${index.totalDocs} documents and ${index.terms.size} unique terms`);
+  return version;
+}
+
+/**
+ * Get the version read before the active index pointer existed:
+ * bm25:active, or "legacy" for the single-key index.
+ */
+export async function getLegacyTermIndexVersion(): Promise<string | null> {
+  const redis = getRedis();
+  if (!redis) return null;
+
+  const version = await redis.get<string>(KEYS.ACTIVE);
+  if (version) return String(version);
+  return (await redis.exists(KEYS.LEGACY_INDEX)) ? LEGACY_VERSION : null;
+}
+
+/**
+ * Delete a stored index version once no index slot refers to it.
+ */
+export async function deleteTermIndex(version: string): Promise<void> {
+  const redis = getRedis();
+  if (!redis) return;
+
+  if (version === LEGACY_VERSION) {
+    await redis.del(KEYS.LEGACY_INDEX);
     return;
   }
+  await deleteTermIndexVersion(redis, version);
+  // Drop the pre-pointer reference so it is not read again
+  if ((await redis.get<string>(KEYS.ACTIVE)) === version) {
+    await redis.del(KEYS.ACTIVE);
+  }
+}
 
-  const redis = new Redis({ url, token });
-  const serialized = serializeTermIndex(index);
 
-  await redis.set("bm25:index", serialized);
-  console.log(`Stored BM25 index with ${index.totalDocs} documents and ${index.terms.size} unique terms`);
+/**
+ * Delete all keys of a stored index version.
+ */
+async function deleteTermIndexVersion(redis: Redis, version: string): Promise<void> {
+  const keys = versionKeys(version);
+  const all = [keys.meta, keys.docLengths];
+  for (let n = 0; n < TERM_BUCKETS; n++) {
+    all.push(keys.bucket(n));
+  }
+  await redis.del(...all);
 }
 
 /**
- * Load term index from Upstash Redis.
+ * Load the part of the term index needed to score the given query terms.
+ * Only the term buckets and document lengths touched by the query are fetched.
  */
-export async function loadTermIndex(): Promise<TermIndex | null> {
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+export async function loadTermIndex(queryTerms: string[]): Promise<TermIndex | null> {
+  const redis = getRedis();
 
-  if (!url || !token) {
+  if (!redis) {
+    return null;
+  }
+
+  const pointer = await getIndexPointer();
+  const version = pointer
+    ? pointer.active.bm25Version
+    : await redis.get<string>(KEYS.ACTIVE);
+  if (!version) {
+    return pointer ? null : loadLegacyTermIndex(redis);
+  }
+  if (version === LEGACY_VERSION) {
+    return loadLegacyTermIndex(redis);
+  }
+
+  const keys = versionKeys(String(version));
+  const uniqueTerms = [...new Set(queryTerms)];
+
+  // Group requested terms by bucket: one HMGET per bucket
+  const byBucket = new Map<number, string[]>();
+  for (const term of uniqueTerms) {
+    const n = termBucket(term);
+    byBucket.set(n, [...(byBucket.get(n) || []), term]);
+  }
+
+  const pipeline = redis.pipeline();
+  pipeline.hgetall(keys.meta);
+  for (const [n, terms] of byBucket) {
+    pipeline.hmget(keys.bucket(n), ...terms);
+  }
+  const [meta, ...bucketResults] = (await pipeline.exec()) as [
+    Record<string, unknown> | null,
+    ...Array<Record<string, unknown> | null>,
+  ];
+
+  if (!meta) {
     return null;
   }
 
-  const redis = new Redis({ url, token });
+  const terms = new Map<string, TermPosting[]>();
+  for (const fields of bucketResults) {
+    for (const [term, value] of Object.entries(fields || {})) {
+      if (value) terms.set(term, parseStored<TermPosting[]>(value));
+    }
+  }
+
+  // Fetch lengths only for documents that contain a query term
+  const docIds = new Set<string>();
+  for (const postings of terms.values()) {
+    postings.forEach((p) => docIds.add(p.id));
+  }
+
+  const docLengths = new Map<string, number>();
+  if (docIds.size > 0) {
+    const lengths = await redis.hmget<Record<string, number | string>>(
+      keys.docLengths,
+      ...docIds
+    );
+    for (const [id, length] of Object.entries(lengths || {})) {
+      if (length !== null) docLengths.set(id, Number(length));
+    }
+  }
+
+  return {
+    terms,
+    docLengths,
+    avgDocLength: Number(meta.avgDocLength),
+    totalDocs: Number(meta.totalDocs),
+  };
+}
+
+/**
+ * Load the pre-sharding single-key index (until the first re-index).
+ */
+async function loadLegacyTermIndex(redis: Redis): Promise<TermIndex | null> {
   // Upstash may return parsed JSON object or string depending on how it was stored
-  const data = await redis.get<string | object>("bm25:index");
+  const data = await redis.get<string | object>(KEYS.LEGACY_INDEX);
 
   if (!data) {
     return null;
@@ -338,3 +578,100 @@ export async function loadTermIndex(): Promise<TermIndex | null> {
 
   return deserializeTermIndex(data);
 }
+
+/**
+ * Process-level cache of the postings loaded so far for one index version.
+ * Warm instances only check the index version and fetch terms they have not seen.
+ */
+interface TermIndexCache {
+  version: string;
+  index: TermIndex;
+  searcher: BM25Searcher;
+  /** Query terms known to have no postings in this version */
+  absentTerms: Set<string>;
+}
+
+let termIndexCache: TermIndexCache | null = null;
+const cacheCounters = { hits: 0, misses: 0 };
+
+/**
+ * Get a BM25 searcher able to score the given query terms.
+ * Reuses the process cache while the index version is unchanged.
+ */
+export async function getBM25Searcher(
+  queryTerms: string[]
+): Promise<{ searcher: BM25Searcher | null; cache: BM25CacheStatus }> {
+  const version = await getIndexVersion();
+  if (version === null) {
+    return { searcher: null, cache: { hit: false, ...cacheCounters } };
+  }
+
+  if (termIndexCache?.version !== version) {
+    termIndexCache = null;
+  }
+
+  const uniqueTerms = [...new Set(queryTerms)];
+  let missing = termIndexCache
+    ? uniqueTerms.filter(
+        (t) => !termIndexCache!.index.terms.has(t) && !termIndexCache!.absentTerms.has(t)
+      )
+    : uniqueTerms;
+
+  // Start over rather than grow without bound on long-lived instances;
+  // the fresh cache then needs every query term, not just the missing ones
+  if (
+    termIndexCache &&
+    termIndexCache.index.terms.size + termIndexCache.absentTerms.size + missing.length >
+      MAX_CACHED_TERMS
+  ) {
+    termIndexCache = null;
+    missing = uniqueTerms;
+  }
+
+  if (termIndexCache && missing.length === 0) {
+    cacheCounters.hits++;
+    return {
+      searcher: termIndexCache.searcher,
+      cache: { hit: true, ...cacheCounters },
+    };
+  }
+
+  cacheCounters.misses++;
+  const loaded = await loadTermIndex(missing);
+  if (!loaded) {
+    return { searcher: termIndexCache?.searcher || null, cache: { hit: false, ...cacheCounters } };
+  }
+
+  if (!termIndexCache) {
+    const index: TermIndex = {
+      terms: new Map(),
+      docLengths: new Map(),
+      avgDocLength: loaded.avgDocLength,
+      totalDocs: loaded.totalDocs,
+    };
+    termIndexCache = {
+      version,
+      index,
+      searcher: new BM25Searcher(index),
+      absentTerms: new Set(),
+    };
+  }
+
+  const cached = termIndexCache.index;
+  for (const term of missing) {
+    const postings = loaded.terms.get(term);
+    if (postings) {
+      cached.terms.set(term, postings);
+    } else {
+      termIndexCache.absentTerms.add(term);
+    }
+  }
+  for (const [id, length] of loaded.docLengths) {
+    cached.docLengths.set(id, length);
+  }
+
+  return {
+    searcher: termIndexCache.searcher,
+    cache: { hit: false, ...cacheCounters },
+  };
+}
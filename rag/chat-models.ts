@@ -0,0 +1,135 @@
+/**
+ * Chat model routing for docs-chat RAG pipeline.
+ * Maps the model names clients may request onto a provider, upstream
+ * model name and per-model generation defaults.
+ *
+ * Environment variables:
+ *   CHAT_MODELS - Comma-separated allowlist of model ids (default: all available)
+ *   CHAT_MODELS_CONFIG - JSON array of extra or overriding ChatModelConfig entries
+ *   DEFAULT_CHAT_MODEL - Model used when the client does not pick one
+ *   OPENAI_COMPATIBLE_BASE_URL / OPENAI_COMPATIBLE_MODEL - Local llama.cpp/Ollama server
+ */
+
+export type ProviderName = "openai" | "anthropic" | "gemini" | "openai-compatible";
+
+export interface ChatModelConfig {
+  /** Name clients send in the `model` field */
+  id: string;
+  provider: ProviderName;
+  /** Upstream model name (defaults to id) */
+  model?: string;
+  maxOutputTokens?: number;
+  temperature?: number;
+  /** Token budget for retrieved documentation in the prompt */
+  contextTokens?: number;
+}
+
+const BUILTIN_MODELS: ChatModelConfig[] = [
+  { id: "gpt-5-nano", provider: "openai", contextTokens: 2000 },
+  { id: "gpt-5-mini", provider: "openai", contextTokens: 3000 },
+  { id: "gpt-5", provider: "openai", contextTokens: 6000 },
+  { id: "gpt-5.1", provider: "openai", contextTokens: 6000 },
+  { id: "gpt-5.2", provider: "openai", contextTokens: 6000 },
+  { id: "claude-haiku-4-5", provider: "anthropic", maxOutputTokens: 4096, contextTokens: 3000 },
+  { id: "claude-sonnet-4-5", provider: "anthropic", maxOutputTokens: 4096, contextTokens: 6000 },
+  { id: "gemini-2.5-flash", provider: "gemini", contextTokens: 4000 },
+  { id: "gemini-2.5-pro", provider: "gemini", contextTokens: 8000 },
+];
+
+const FALLBACK_MODEL = "gpt-5-mini";
+
+/**
+ * Check whether credentials for a provider are configured.
+ */
+export function isProviderConfigured(provider: ProviderName): boolean {
+  switch (provider) {
+    case "openai":
+      return !!process.env.OPENAI_API_KEY;
+    case "anthropic":
+      return !!process.env.ANTHROPIC_API_KEY;
+    case "gemini":
+      return !!process.env.GEMINI_API_KEY;
+    case "openai-compatible":
+      return !!process.env.OPENAI_COMPATIBLE_BASE_URL;
+  }
+}
+
+/**
+ * Parse CHAT_MODELS_CONFIG, ignoring malformed entries.
+ */
+function loadConfiguredModels(): ChatModelConfig[] {
+  const raw = process.env.CHAT_MODELS_CONFIG;
+  if (!raw) return [];
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) throw new Error("expected an array");
+    return parsed.filter(
+      (entry): entry is ChatModelConfig =>
+        typeof entry?.id === "string" && typeof entry?.provider === "string"
+    );
+  } catch (error) {
+    console.error("Invalid CHAT_MODELS_CONFIG:", error);
+    return [];
+  }
+}
+
+/**
+ * Get all models clients may request, in preference order.
+ * Models whose provider has no credentials are excluded.
+ */
+export function getChatModels(): ChatModelConfig[] {
+  const byId = new Map<string, ChatModelConfig>();
+
+  for (const entry of BUILTIN_MODELS) {
+    byId.set(entry.id, entry);
+  }
+
+  const compatModel = process.env.OPENAI_COMPATIBLE_MODEL;
+  if (compatModel) {
+    byId.set(compatModel, { id: compatModel, provider: "openai-compatible" });
+  }
+
+  for (const entry of loadConfiguredModels()) {
+    byId.set(entry.id, { ...byId.get(entry.id), ...entry });
+  }
+
+  const allowlist = process.env.CHAT_MODELS?.split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  return Array.from(byId.values()).filter(
+    (entry) =>
+      isProviderConfigured(entry.provider) &&
+      (!allowlist?.length || allowlist.includes(entry.id))
+  );
+}
+
+/**
+ * Look up the config for an allowed model.
+ */
+export function getModelConfig(id: string): ChatModelConfig | null {
+  return getChatModels().find((entry) => entry.id === id) || null;
+}
+
+/**
+ * Check whether a model name is allowed and routable.
+ */
+export function isAllowedModel(model: unknown): model is string {
+  return typeof model === "string" && getModelConfig(model) !== null;
+}
+
+/**
+ * Get the default chat model.
+ * Prefers DEFAULT_CHAT_MODEL, then gpt-5-mini, then the first available model.
+ */
+export function getDefaultModel(): string | null {
+  const models = getChatModels();
+  const preferred = [process.env.DEFAULT_CHAT_MODEL, FALLBACK_MODEL];
+
+  for (const id of preferred) {
+    if (id && models.some((entry) => entry.id === id)) return id;
+  }
+
+  return models[0]?.id || null;
+}
@@ -0,0 +1,397 @@
+/**
+ * LLM Chat Providers for docs-chat RAG pipeline.
+ * Normalizes streaming chat completions from OpenAI, Anthropic, Gemini and
+ * OpenAI-compatible servers (llama.cpp, Ollama) into one delta stream.
+ */
+import type { ChatModelConfig, ProviderName } from "./chat-models";
+
+export type ChatRole = "system" | "user" | "assistant";
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatStreamChunk {
+  content?: string;
+  usage?: ChatUsage;
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxOutputTokens?: number;
+  temperature?: number;
+}
+
+/**
+ * Common interface for streaming chat backends.
+ * `streamChat` throws before streaming if the provider rejects the request,
+ * so callers can still return a regular error response.
+ */
+export interface ChatProvider {
+  readonly name: ProviderName;
+  streamChat(request: ChatRequest): Promise<AsyncGenerator<ChatStreamChunk>>;
+}
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+const ANTHROPIC_BASE_URL = "https://api.anthropic.com/v1";
+const ANTHROPIC_VERSION = "2023-06-01";
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096;
+const GEMINI_BASE_URL = "https://generativelanguage.googleapis.com/v1beta/models";
+
+/**
+ * OpenAI Chat Completions provider.
+ * Also serves any server implementing the same API via a custom base URL.
+ */
+export class OpenAIChatProvider implements ChatProvider {
+  readonly name: ProviderName = "openai";
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly baseUrl: string = OPENAI_BASE_URL,
+  ) {
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY is required for OpenAI chat");
+    }
+  }
+
+  async streamChat(request: ChatRequest): Promise<AsyncGenerator<ChatStreamChunk>> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: request.model,
+        stream: true,
+        stream_options: { include_usage: true },
+        messages: request.messages,
+        ...(request.maxOutputTokens ? { max_completion_tokens: request.maxOutputTokens } : {}),
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`${this.label} API error: ${response.status}`);
+    }
+
+    return mapSseStream(response.body, parseOpenAIChunk);
+  }
+
+  protected get label(): string {
+    return "OpenAI";
+  }
+
+  protected headers(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${this.apiKey}`,
+    };
+  }
+}
+
+/**
+ * Generic OpenAI-compatible provider for local servers.
+ * The API key is optional since most local servers do not check it.
+ */
+export class OpenAICompatibleChatProvider extends OpenAIChatProvider {
+  readonly name: ProviderName = "openai-compatible";
+
+  constructor(baseUrl: string, private readonly optionalKey?: string) {
+    super(optionalKey || "unused", baseUrl.replace(/\/+$/, ""));
+  }
+
+  protected get label(): string {
+    return "OpenAI-compatible";
+  }
+
+  protected headers(): Record<string, string> {
+    return this.optionalKey
+      ? super.headers()
+      : { "Content-Type": "application/json" };
+  }
+}
+
+/**
+ * Anthropic Messages API provider.
+ */
+export class AnthropicChatProvider implements ChatProvider {
+  readonly name: ProviderName = "anthropic";
+
+  constructor(private readonly apiKey: string) {
+    if (!apiKey) {
+      throw new Error("ANTHROPIC_API_KEY is required for Anthropic chat");
+    }
+  }
+
+  async streamChat(request: ChatRequest): Promise<AsyncGenerator<ChatStreamChunk>> {
+    // Anthropic takes the system prompt as a top-level field
+    const system = request.messages
+      .filter((m) => m.role === "system")
+      .map((m) => m.content)
+      .join("\n\n");
+    const messages = request.messages.filter((m) => m.role !== "system");
+
+    const response = await fetch(`${ANTHROPIC_BASE_URL}/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        stream: true,
+        max_tokens: request.maxOutputTokens || ANTHROPIC_DEFAULT_MAX_TOKENS,
+        ...(system ? { system } : {}),
+        messages,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Anthropic API error: ${response.status}`);
+    }
+
+    // Input tokens arrive in message_start, output tokens in message_delta
+    let promptTokens = 0;
+    return mapSseStream(response.body, (json: AnthropicStreamEvent) => {
+      switch (json.type) {
+        case "message_start":
+          promptTokens = json.message?.usage?.input_tokens ?? 0;
+          return null;
+        case "content_block_delta":
+          return json.delta?.type === "text_delta" && json.delta.text
+            ? { content: json.delta.text }
+            : null;
+        case "message_delta": {
+          const completionTokens = json.usage?.output_tokens ?? 0;
+          return {
+            usage: {
+              promptTokens,
+              completionTokens,
+              totalTokens: promptTokens + completionTokens,
+            },
+          };
+        }
+        case "error":
+          throw new Error(json.error?.message || "Anthropic stream error");
+        default:
+          return null;
+      }
+    });
+  }
+}
+
+/**
+ * Google Gemini generateContent provider.
+ */
+export class GeminiChatProvider implements ChatProvider {
+  readonly name: ProviderName = "gemini";
+
+  constructor(private readonly apiKey: string) {
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY is required for Gemini chat");
+    }
+  }
+
+  async streamChat(request: ChatRequest): Promise<AsyncGenerator<ChatStreamChunk>> {
+    const system = request.messages
+      .filter((m) => m.role === "system")
+      .map((m) => m.content)
+      .join("\n\n");
+    const contents = request.messages
+      .filter((m) => m.role !== "system")
+      .map((m) => ({
+        role: m.role === "assistant" ? "model" : "user",
+        parts: [{ text: m.content }],
+      }));
+
+    const url = `${GEMINI_BASE_URL}/${request.model}:streamGenerateContent?alt=sse&key=${this.apiKey}`;
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+        contents,
+        generationConfig: {
+          ...(request.maxOutputTokens ? { maxOutputTokens: request.maxOutputTokens } : {}),
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        },
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Gemini API error: ${response.status}`);
+    }
+
+    return mapSseStream(response.body, (json: GeminiStreamChunk) => {
+      if (json.error) {
+        throw new Error(json.error.message || "Gemini stream error");
+      }
+
+      const content = json.candidates?.[0]?.content?.parts
+        ?.map((part) => part.text || "")
+        .join("") || undefined;
+      // Gemini reports cumulative usage on every chunk; the last one wins
+      const usage = json.usageMetadata
+        ? {
+            promptTokens: json.usageMetadata.promptTokenCount ?? 0,
+            completionTokens: json.usageMetadata.candidatesTokenCount ?? 0,
+            totalTokens: json.usageMetadata.totalTokenCount ?? 0,
+          }
+        : undefined;
+
+      return content || usage ? { content, usage } : null;
+    });
+  }
+}
+
+/**
+ * Create the provider that serves a configured model.
+ */
+export function getChatProvider(config: ChatModelConfig): ChatProvider {
+  switch (config.provider) {
+    case "openai":
+      return new OpenAIChatProvider(process.env.OPENAI_API_KEY || "");
+    case "anthropic":
+      return new AnthropicChatProvider(process.env.ANTHROPIC_API_KEY || "");
+    case "gemini":
+      return new GeminiChatProvider(process.env.GEMINI_API_KEY || "");
+    case "openai-compatible": {
+      const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+      if (!baseUrl) {
+        throw new Error("OPENAI_COMPATIBLE_BASE_URL is required for OpenAI-compatible chat");
+      }
+      return new OpenAICompatibleChatProvider(baseUrl, process.env.OPENAI_COMPATIBLE_API_KEY);
+    }
+  }
+}
+
+/**
+ * Start a streaming completion for a configured model, applying its defaults.
+ */
+export async function streamModelChat(
+  config: ChatModelConfig,
+  messages: ChatMessage[]
+): Promise<AsyncGenerator<ChatStreamChunk>> {
+  const provider = getChatProvider(config);
+  return provider.streamChat({
+    model: config.model || config.id,
+    messages,
+    maxOutputTokens: config.maxOutputTokens,
+    temperature: config.temperature,
+  });
+}
+
+/**
+ * Read an SSE body and map each JSON `data:` payload to a chunk.
+ * Malformed lines are skipped; errors thrown by `map` end the stream.
+ */
+async function* mapSseStream<T>(
+  body: ReadableStream<Uint8Array>,
+  map: (json: T) => ChatStreamChunk | null
+): AsyncGenerator<ChatStreamChunk> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const parse = (line: string): ChatStreamChunk | null => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("data:")) return null;
+    const data = trimmed.slice(5).trim();
+    if (!data || data === "[DONE]") return null;
+
+    let json: T;
+    try {
+      json = JSON.parse(data);
+    } catch {
+      return null; // Ignore malformed SSE lines
+    }
+    return map(json);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+
+      // Keep the last (potentially incomplete) line in the buffer
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        if (line.trim() === "data: [DONE]") return;
+        const chunk = parse(line);
+        if (chunk) yield chunk;
+      }
+    }
+
+    // Process any remaining buffered data on stream end
+    const chunk = parse(buffer);
+    if (chunk) yield chunk;
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * OpenAI streaming chunk type (fields we read).
+ */
+interface OpenAIStreamChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  } | null;
+  error?: { message?: string };
+}
+
+function parseOpenAIChunk(json: OpenAIStreamChunk): ChatStreamChunk | null {
+  if (json.error) {
+    throw new Error(json.error.message || "OpenAI stream error");
+  }
+
+  const content = json.choices?.[0]?.delta?.content || undefined;
+  const usage = json.usage
+    ? {
+        promptTokens: json.usage.prompt_tokens ?? 0,
+        completionTokens: json.usage.completion_tokens ?? 0,
+        totalTokens: json.usage.total_tokens ?? 0,
+      }
+    : undefined;
+
+  return content || usage ? { content, usage } : null;
+}
+
+/**
+ * Anthropic streaming event type (fields we read).
+ */
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { usage?: { input_tokens?: number } };
+  delta?: { type?: string; text?: string };
+  usage?: { output_tokens?: number };
+  error?: { message?: string };
+}
+
+/**
+ * Gemini streaming chunk type (fields we read).
+ */
+interface GeminiStreamChunk {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  error?: { message?: string };
+}
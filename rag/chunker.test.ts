@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { chunkMarkdown, getChunkingConfig, slugify, type ChunkingConfig } from "./chunker";
+import { estimateTokens } from "./conversation";
+
+const config: ChunkingConfig = { maxTokens: 200, minTokens: 50, maxBlockTokens: 300 };
+
+const paragraph = (words: number) => "Lorem ipsum dolor sit amet. ".repeat(words / 5).trim();
+
+describe("chunkMarkdown", () => {
+  test("starts a chunk at each section with its heading breadcrumb", () => {
+    const markdown = [
+      paragraph(60),
+      "## Install",
+      paragraph(60),
+      "### Verify",
+      paragraph(60),
+      "## Configure",
+      paragraph(60),
+    ].join("\n\n");
+
+    const chunks = chunkMarkdown(markdown, config);
+    expect(chunks.map((c) => c.headings)).toEqual([
+      [],
+      ["Install"],
+      ["Install", "Verify"],
+      ["Configure"],
+    ]);
+    expect(chunks[1].content.startsWith("## Install\n\n")).toBe(true);
+  });
+
+  test("merges sections smaller than minTokens into the next one", () => {
+    const markdown = ["## Install", "Short.", "### Verify", paragraph(60)].join("\n\n");
+    const chunks = chunkMarkdown(markdown, config);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].headings).toEqual(["Install"]);
+    expect(chunks[0].content).toContain("### Verify");
+  });
+
+  test("keeps code blocks whole, with their language", () => {
+    const code = "```bash\n" + "echo configure the gateway\n".repeat(30) + "```";
+    const markdown = ["## Install", paragraph(60), code].join("\n\n");
+
+    const chunks = chunkMarkdown(markdown, config);
+    expect(chunks.some((c) => c.content.includes(code))).toBe(true);
+  });
+
+  test("splits oversized code blocks by lines and re-opens the fence", () => {
+    const code = "~~~ts\n" + "const value = computeSomething(); // filler\n".repeat(60) + "~~~";
+    const chunks = chunkMarkdown(`## Code\n\n${code}`, config);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const c of chunks) {
+      // The section heading stays with the first piece on top of its budget
+      const piece = c.content.replace(/^## Code\n\n/, "");
+      expect(piece.match(/~~~/g)).toHaveLength(2);
+      expect(estimateTokens(piece)).toBeLessThanOrEqual(config.maxBlockTokens);
+    }
+  });
+
+  test("splits oversized tables by rows and repeats the header", () => {
+    const rows = Array.from({ length: 80 }, (_, i) => `| option ${i} | description of option ${i} |`);
+    const table = ["| Option | Description |", "| --- | --- |", ...rows].join("\n");
+    const chunks = chunkMarkdown(`## Options\n\n${table}`, config);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const c of chunks) {
+      expect(c.content).toContain("| Option | Description |\n| --- | --- |");
+    }
+  });
+
+  test("splits long prose at sentence boundaries within maxTokens", () => {
+    const chunks = chunkMarkdown(`## Overview\n\n${paragraph(600)}`, config);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const c of chunks) {
+      expect(estimateTokens(c.content)).toBeLessThanOrEqual(config.maxTokens);
+      expect(c.content.endsWith(".")).toBe(true);
+      expect(c.headings).toEqual(["Overview"]);
+    }
+  });
+
+  test("never ends a chunk with a dangling heading", () => {
+    const markdown = ["## First", paragraph(150), "## Second", paragraph(150)].join("\n\n");
+    for (const c of chunkMarkdown(markdown, config)) {
+      expect(c.content).not.toMatch(/#+ [^\n]+$/);
+    }
+  });
+
+  test("assigns unique anchors to repeated headings", () => {
+    const markdown = [
+      "## Install `openclaw` CLI",
+      paragraph(60),
+      "### Options",
+      paragraph(60),
+      "## Set up [Gateway](/gateway) & auth!",
+      paragraph(60),
+      "### Options",
+      paragraph(60),
+    ].join("\n\n");
+
+    expect(chunkMarkdown(markdown, config).map((c) => c.anchor)).toEqual([
+      "install-openclaw-cli",
+      "options",
+      "set-up-gateway--auth",
+      "options-1",
+    ]);
+  });
+});
+
+describe("slugify", () => {
+  test("builds GitHub-style heading anchors", () => {
+    expect(slugify("Getting Started")).toBe("getting-started");
+    expect(slugify("What's new in v2.0?")).toBe("whats-new-in-v20");
+    expect(slugify("snake_case names")).toBe("snake_case-names");
+  });
+});
+
+describe("getChunkingConfig", () => {
+  afterEach(() => {
+    delete process.env.CHUNKING_CONFIG;
+  });
+
+  test("applies valid per-source overrides and ignores invalid ones", () => {
+    process.env.CHUNKING_CONFIG = JSON.stringify({
+      docs: { maxTokens: 400 },
+      supplementary: { maxTokens: "big" },
+    });
+    expect(getChunkingConfig("docs").maxTokens).toBe(400);
+    expect(getChunkingConfig("supplementary").maxTokens).toBe(300);
+  });
+
+  test("keeps the limits consistent", () => {
+    process.env.CHUNKING_CONFIG = JSON.stringify({
+      docs: { maxTokens: 100, minTokens: 500, maxBlockTokens: 50 },
+    });
+    expect(getChunkingConfig("docs")).toEqual({ maxTokens: 100, minTokens: 100, maxBlockTokens: 100 });
+  });
+});
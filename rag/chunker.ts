@@ -0,0 +1,423 @@
+/**
+ * Markdown Chunker for docs-chat RAG pipeline.
+ * Splits a page into chunks along its section structure: a chunk starts at
+ * a heading, code blocks and tables are kept whole, and long prose is split
+ * at paragraph, list item and sentence boundaries to stay within a token
+ * limit. Each chunk carries the heading breadcrumb and anchor of the section
+ * it starts in, so citations can link to that section.
+ *
+ * Environment variables:
+ *   CHUNKING_CONFIG - JSON object of per-source overrides,
+ *     e.g. {"supplementary":{"maxTokens":500}}
+ */
+import { estimateTokens } from "./conversation";
+
+/** Where a page came from: llms-full.txt or the local docs/ directory */
+export type ChunkSource = "docs" | "supplementary";
+
+export interface ChunkingConfig {
+  /** Target upper bound per chunk */
+  maxTokens: number;
+  /** Sections smaller than this are merged into the next one */
+  minTokens: number;
+  /** Code blocks and tables up to this size are never split */
+  maxBlockTokens: number;
+}
+
+export interface MarkdownChunk {
+  content: string;
+  /** Headings enclosing the chunk's first section, outermost first */
+  headings: string[];
+  /** Anchor id of the chunk's first section heading, null before the first heading */
+  anchor: string | null;
+}
+
+type BlockType = "heading" | "code" | "table" | "list" | "paragraph";
+
+interface Block {
+  type: BlockType;
+  text: string;
+}
+
+interface Section {
+  headings: string[];
+  anchor: string | null;
+  blocks: Block[];
+}
+
+interface Piece extends Block {
+  headings: string[];
+  anchor: string | null;
+}
+
+const DEFAULT_CHUNKING: ChunkingConfig = {
+  maxTokens: 300,
+  minTokens: 50,
+  maxBlockTokens: 1000,
+};
+
+const SOURCE_CHUNKING: Record<ChunkSource, ChunkingConfig> = {
+  docs: DEFAULT_CHUNKING,
+  supplementary: DEFAULT_CHUNKING,
+};
+
+const MAX_CHUNK_TOKENS = 8000;
+
+// Blocks are joined back the way markdown separates them
+const PIECE_SEPARATOR = "\n\n";
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const TOP_LEVEL_LIST_ITEM = /^(?:[-*+]|\d+[.)])\s+/;
+
+/**
+ * Validate a partial chunking config from env.
+ * Returns null if any present field is invalid.
+ */
+export function parseChunkingOverride(raw: unknown): Partial<ChunkingConfig> | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+
+  const input = raw as Record<string, unknown>;
+  const override: Partial<ChunkingConfig> = {};
+  for (const field of ["maxTokens", "minTokens", "maxBlockTokens"] as const) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (!Number.isInteger(value) || !((value as number) > 0 && (value as number) <= MAX_CHUNK_TOKENS)) {
+      return null;
+    }
+    override[field] = value as number;
+  }
+  return override;
+}
+
+/**
+ * Parse CHUNKING_CONFIG, ignoring malformed sources.
+ */
+function loadConfiguredChunking(): Partial<Record<ChunkSource, Partial<ChunkingConfig>>> {
+  const raw = process.env.CHUNKING_CONFIG;
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    const result: Partial<Record<ChunkSource, Partial<ChunkingConfig>>> = {};
+    for (const source of Object.keys(SOURCE_CHUNKING) as ChunkSource[]) {
+      if (parsed?.[source] === undefined) continue;
+      const override = parseChunkingOverride(parsed[source]);
+      if (override) {
+        result[source] = override;
+      } else {
+        console.error(`Invalid CHUNKING_CONFIG entry for ${source}`);
+      }
+    }
+    return result;
+  } catch (error) {
+    console.error("Invalid CHUNKING_CONFIG:", error);
+    return {};
+  }
+}
+
+/**
+ * Get the chunking config for a source: built-in defaults, then CHUNKING_CONFIG.
+ * The limits are made consistent (min <= max <= block).
+ */
+export function getChunkingConfig(source: ChunkSource): ChunkingConfig {
+  const config = { ...SOURCE_CHUNKING[source], ...loadConfiguredChunking()[source] };
+  return {
+    maxTokens: config.maxTokens,
+    minTokens: Math.min(config.minTokens, config.maxTokens),
+    maxBlockTokens: Math.max(config.maxBlockTokens, config.maxTokens),
+  };
+}
+
+/**
+ * Split a markdown page into chunks.
+ */
+export function chunkMarkdown(markdown: string, config: ChunkingConfig): MarkdownChunk[] {
+  const chunks: MarkdownChunk[] = [];
+  let current: Piece[] = [];
+
+  const flush = () => {
+    // A heading belongs with the content after it
+    const carried: Piece[] = [];
+    while (current.length > 0 && current[current.length - 1].type === "heading") {
+      carried.unshift(current.pop()!);
+    }
+    if (current.length > 0) {
+      chunks.push(toChunk(current));
+    }
+    current = carried;
+  };
+
+  for (const section of parseSections(markdown)) {
+    if (current.length > 0 && piecesTokens(current) >= config.minTokens) {
+      flush();
+    }
+
+    for (const block of section.blocks) {
+      for (const text of splitBlock(block, config)) {
+        // A chunk still below minTokens may grow up to maxBlockTokens
+        // rather than be left on its own
+        const limit =
+          piecesTokens(current) < config.minTokens ? config.maxBlockTokens : config.maxTokens;
+        const joined = `${joinPieces(current)}${PIECE_SEPARATOR}${text}`;
+        if (current.length > 0 && estimateTokens(joined) > limit) {
+          flush();
+        }
+        current.push({
+          type: block.type,
+          text,
+          headings: section.headings,
+          anchor: section.anchor,
+        });
+      }
+    }
+  }
+
+  // Fold a small tail into the previous chunk when it fits
+  const tail = current.length > 0 ? toChunk(current) : null;
+  const last = chunks[chunks.length - 1];
+  if (tail && last && estimateTokens(tail.content) < config.minTokens &&
+      estimateTokens(`${last.content}${PIECE_SEPARATOR}${tail.content}`) <= config.maxTokens) {
+    last.content = `${last.content}${PIECE_SEPARATOR}${tail.content}`;
+  } else if (tail) {
+    chunks.push(tail);
+  }
+
+  return chunks;
+}
+
+/**
+ * Parse markdown into sections, one per heading (plus any text before
+ * the first heading), each holding its heading and content blocks.
+ */
+function parseSections(markdown: string): Section[] {
+  const sections: Section[] = [{ headings: [], anchor: null, blocks: [] }];
+  const stack: Array<{ level: number; text: string }> = [];
+  const slugs = new Map<string, number>();
+
+  for (const block of parseBlocks(markdown)) {
+    if (block.type === "heading") {
+      const [, hashes, text] = block.text.match(HEADING)!;
+      while (stack.length > 0 && stack[stack.length - 1].level >= hashes.length) {
+        stack.pop();
+      }
+      const heading = headingText(text);
+      stack.push({ level: hashes.length, text: heading });
+      sections.push({
+        headings: stack.map((h) => h.text),
+        anchor: uniqueSlug(slugify(heading), slugs),
+        blocks: [block],
+      });
+    } else {
+      sections[sections.length - 1].blocks.push(block);
+    }
+  }
+
+  return sections.filter((section) => section.blocks.length > 0);
+}
+
+/**
+ * Plain text of a heading: inline code, links and emphasis unwrapped.
+ */
+function headingText(markdown: string): string {
+  return markdown
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[`*]|(?<!\w)_+|_+(?!\w)/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Heading anchor id as generated by the docs site (GitHub-style slugs):
+ * lowercased, punctuation removed, spaces turned into hyphens.
+ */
+export function slugify(heading: string): string {
+  return heading
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\p{M}\s_-]/gu, "")
+    .trim()
+    .replace(/\s/g, "-");
+}
+
+/**
+ * Suffix repeated slugs on a page with -1, -2, ... in heading order.
+ */
+function uniqueSlug(slug: string, seen: Map<string, number>): string {
+  let unique = slug;
+  let n = seen.get(slug) ?? 0;
+  while (seen.has(unique)) {
+    n++;
+    unique = `${slug}-${n}`;
+  }
+  seen.set(slug, n);
+  seen.set(unique, 0);
+  return unique;
+}
+
+/**
+ * Split markdown into headings, fenced code, tables, lists and paragraphs.
+ */
+function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.split("\n");
+  const blocks: Block[] = [];
+  let i = 0;
+
+  const collect = (type: BlockType, belongs: (line: string, next?: string) => boolean) => {
+    const start = i;
+    i++;
+    while (i < lines.length && belongs(lines[i], lines[i + 1])) i++;
+    // Trailing blank lines are separators, not content
+    let end = i;
+    while (end > start + 1 && !lines[end - 1].trim()) end--;
+    blocks.push({ type, text: lines.slice(start, end).join("\n") });
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+    } else if (FENCE.test(line)) {
+      const fence = line.match(FENCE)![1];
+      const start = i;
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence)) i++;
+      i = Math.min(i + 1, lines.length);
+      blocks.push({ type: "code", text: lines.slice(start, i).join("\n") });
+    } else if (HEADING.test(line)) {
+      blocks.push({ type: "heading", text: line.trim() });
+      i++;
+    } else if (line.trim().startsWith("|")) {
+      collect("table", (l) => l.trim().startsWith("|"));
+    } else if (LIST_ITEM.test(line)) {
+      // Items, indented continuations and blank lines between them
+      collect("list", (l, next) =>
+        l.trim()
+          ? !HEADING.test(l) && !FENCE.test(l) && !l.trim().startsWith("|")
+          : !!next && (LIST_ITEM.test(next) || /^\s+\S/.test(next))
+      );
+    } else {
+      collect("paragraph", (l) =>
+        !!l.trim() && !HEADING.test(l) && !FENCE.test(l) && !l.trim().startsWith("|") && !LIST_ITEM.test(l)
+      );
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Split a block into pieces that fit the limits: code blocks and tables
+ * stay whole up to maxBlockTokens, prose up to maxTokens.
+ */
+function splitBlock(block: Block, config: ChunkingConfig): string[] {
+  const tokens = estimateTokens(block.text);
+  switch (block.type) {
+    case "heading":
+      return [block.text];
+    case "code":
+      return tokens <= config.maxBlockTokens ? [block.text] : splitCode(block.text, config.maxBlockTokens);
+    case "table":
+      return tokens <= config.maxBlockTokens ? [block.text] : splitTable(block.text, config.maxBlockTokens);
+    case "list":
+      if (tokens <= config.maxTokens) return [block.text];
+      return pack(splitListItems(block.text), config.maxTokens, "\n", (item) =>
+        splitProse(item, config.maxTokens)
+      );
+    case "paragraph":
+      return tokens <= config.maxTokens ? [block.text] : splitProse(block.text, config.maxTokens);
+  }
+}
+
+/**
+ * Split an oversized code block by lines, re-opening the fence in each part.
+ */
+function splitCode(text: string, maxTokens: number): string[] {
+  const lines = text.split("\n");
+  const open = lines[0];
+  const fence = open.match(FENCE)![1];
+  const closed = lines.length > 1 && lines[lines.length - 1].trim().startsWith(fence);
+  const body = lines.slice(1, closed ? -1 : undefined);
+  const budget = Math.max(1, maxTokens - estimateTokens(`${open}\n\n${fence}`));
+  return pack(body, budget, "\n", (line) => [line]).map((part) => `${open}\n${part}\n${fence}`);
+}
+
+/**
+ * Split an oversized table by rows, repeating the header in each part.
+ */
+function splitTable(text: string, maxTokens: number): string[] {
+  const rows = text.split("\n");
+  const header = rows.slice(0, 2).join("\n");
+  const budget = Math.max(1, maxTokens - estimateTokens(`${header}\n`));
+  return pack(rows.slice(2), budget, "\n", (row) => [row]).map((part) => `${header}\n${part}`);
+}
+
+/**
+ * Split a list into its top-level items (with their nested lines).
+ */
+function splitListItems(text: string): string[] {
+  const items: string[] = [];
+  for (const line of text.split("\n")) {
+    if (TOP_LEVEL_LIST_ITEM.test(line) || items.length === 0) {
+      items.push(line);
+    } else {
+      items[items.length - 1] += `\n${line}`;
+    }
+  }
+  return items;
+}
+
+/**
+ * Split prose at sentence boundaries, then at words for run-on sentences.
+ */
+function splitProse(text: string, maxTokens: number): string[] {
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  return pack(sentences, maxTokens, " ", (sentence) =>
+    pack(sentence.split(/\s+/), maxTokens, " ", (word) => [word])
+  );
+}
+
+/**
+ * Greedily join parts with a separator into pieces of at most maxTokens.
+ * Parts that are too large on their own are broken up with `split` first.
+ */
+function pack(
+  parts: string[],
+  maxTokens: number,
+  separator: string,
+  split: (part: string) => string[]
+): string[] {
+  const pieces: string[] = [];
+  let current = "";
+  for (const part of parts) {
+    const units = estimateTokens(part) > maxTokens ? split(part) : [part];
+    for (const unit of units) {
+      const joined = current ? `${current}${separator}${unit}` : unit;
+      if (current && estimateTokens(joined) > maxTokens) {
+        pieces.push(current);
+        current = unit;
+      } else {
+        current = joined;
+      }
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+function joinPieces(pieces: Piece[]): string {
+  return pieces.map((piece) => piece.text).join(PIECE_SEPARATOR);
+}
+
+function piecesTokens(pieces: Piece[]): number {
+  return estimateTokens(joinPieces(pieces));
+}
+
+function toChunk(pieces: Piece[]): MarkdownChunk {
+  return {
+    content: joinPieces(pieces),
+    headings: pieces[0].headings,
+    anchor: pieces[0].anchor,
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { classifyQuery, parseOperators } from "./classifier";
+
+describe("parseOperators", () => {
+  test("extracts phrases, exclusions and path prefixes", () => {
+    expect(parseOperators('configure "api key" -docker path:/gateway/')).toEqual({
+      text: "configure api key",
+      operators: {
+        phrases: ["api key"],
+        excludeTerms: ["docker"],
+        pathPrefixes: ["/gateway/"],
+        sections: [],
+      },
+    });
+  });
+
+  test("keeps section names apart from path prefixes", () => {
+    const { text, operators } = parseOperators("path:cli section:install how to");
+    expect(text).toBe("how to");
+    expect(operators.pathPrefixes).toEqual(["/cli"]);
+    expect(operators.sections).toEqual(["install"]);
+  });
+
+  test("searches for the section name when the query has only operators", () => {
+    expect(parseOperators('section:"getting started"')).toEqual({
+      text: "getting started",
+      operators: { phrases: [], excludeTerms: [], pathPrefixes: [], sections: ["getting started"] },
+    });
+  });
+
+  test("does not treat hyphenated words as exclusions", () => {
+    expect(parseOperators("what is a-b").operators.excludeTerms).toEqual([]);
+  });
+});
+
+describe("classifyQuery", () => {
+  test("uses the keyword index when the query has a phrase", () => {
+    expect(classifyQuery('"exact phrase" setup').strategy).toBe("hybrid");
+  });
+
+  test("detects intents", () => {
+    expect(classifyQuery("how does the gateway work").intent).toBe("conceptual");
+    expect(classifyQuery("gateway fails to start with an error").intent).toBe("troubleshooting");
+    expect(classifyQuery("difference between agents vs skills").intent).toBe("comparison");
+  });
+});
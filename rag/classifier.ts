@@ -1,19 +1,45 @@
 /**
  * Query Understanding Layer for docs-chat RAG pipeline.
  * Classifies query intent, expands queries, and extracts keywords.
+ *
+ * Query syntax:
+ *   "exact phrase"            - phrase/proximity match
+ *   -term                     - exclude chunks containing term
+ *   path:/api/               - restrict results to a page prefix
+ *   section:name             - restrict results to a document section (heading)
  */
+import { QUERY_STOP_WORDS, tokenize } from "./tokenizer";
 
 export type QueryIntent = "lookup" | "conceptual" | "troubleshooting" | "comparison";
 export type RetrievalStrategy = "semantic" | "keyword" | "hybrid";
 
+export interface QueryOperators {
+  /** Quoted phrases that should appear verbatim */
+  phrases: string[];
+  /** Terms prefixed with "-" that must not appear */
+  excludeTerms: string[];
+  /** Page prefixes from path: */
+  pathPrefixes: string[];
+  /** Section names from section:, matched against chunk headings */
+  sections: string[];
+}
+
 export interface ClassifiedQuery {
   original: string;
+  /** Query text with operators removed and phrases unquoted */
+  text: string;
   expanded: string;
   intent: QueryIntent;
   strategy: RetrievalStrategy;
   keywords: string[];
+  operators: QueryOperators;
 }
 
+// Search operator syntax
+const PHRASE_PATTERN = /"([^"]+)"/g;
+const EXCLUDE_PATTERN = /(^|\s)-([^\s\-"]\S*)/g;
+const PATH_PATTERN = /(^|\s)(path|section):("[^"]*"|\S*)/gi;
+
 // Patterns for intent detection
 const LOOKUP_PATTERNS = [
   /`[^`]+`/,                                    // backticks (code refs)
@@ -53,36 +79,82 @@ const SYNONYMS: Record<string, string[]> = {
   "err": ["error", "exception", "failure"],
 };
 
-// Stop words to filter from keywords
-const STOP_WORDS = new Set([
-  "a", "an", "the", "is", "are", "was", "were", "be", "been", "being",
-  "have", "has", "had", "do", "does", "did", "will", "would", "could",
-  "should", "may", "might", "must", "shall", "can", "need", "dare",
-  "to", "of", "in", "for", "on", "with", "at", "by", "from", "as",
-  "into", "through", "during", "before", "after", "above", "below",
-  "between", "under", "again", "further", "then", "once", "here",
-  "there", "when", "where", "why", "how", "all", "each", "few",
-  "more", "most", "other", "some", "such", "no", "nor", "not",
-  "only", "own", "same", "so", "than", "too", "very", "just",
-  "and", "but", "if", "or", "because", "until", "while", "it",
-  "this", "that", "these", "those", "i", "me", "my", "we", "you",
-]);
-
 /**
  * Classifies a query and determines optimal retrieval strategy.
  */
 export function classifyQuery(query: string): ClassifiedQuery {
-  const intent = detectIntent(query);
-  const strategy = determineStrategy(query, intent);
-  const keywords = extractKeywords(query);
-  const expanded = expandQuery(query);
+  const { text, operators } = parseOperators(query);
+  const intent = detectIntent(text);
+  let strategy = determineStrategy(text, intent);
+  const keywords = extractKeywords(text);
+  const expanded = expandQuery(text);
+
+  // Phrase matching needs the keyword index
+  if (operators.phrases.length > 0 && strategy === "semantic") {
+    strategy = "hybrid";
+  }
 
   return {
     original: query,
+    text,
     expanded,
     intent,
     strategy,
     keywords,
+    operators,
+  };
+}
+
+/**
+ * Extracts search operators and returns the remaining query text.
+ */
+export function parseOperators(query: string): { text: string; operators: QueryOperators } {
+  const pathPrefixes: string[] = [];
+  const sections: string[] = [];
+  let rest = query.replace(PATH_PATTERN, (_match, lead: string, op: string, value: string) => {
+    const name = value.replace(/"/g, "").trim();
+    if (!name) return lead;
+    if (op.toLowerCase() === "section") {
+      sections.push(name.replace(/\s+/g, " "));
+    } else {
+      pathPrefixes.push(name.startsWith("/") ? name : `/${name}`);
+    }
+    return lead;
+  });
+
+  // Phrases are kept in the text (unquoted) so they still inform semantic search
+  const phrases: string[] = [];
+  rest = rest.replace(PHRASE_PATTERN, (_match, phrase: string) => {
+    const trimmed = phrase.trim().replace(/\s+/g, " ");
+    if (trimmed) phrases.push(trimmed);
+    return ` ${trimmed} `;
+  });
+
+  // Exclusions are parsed outside phrases only
+  const excludeTerms: string[] = [];
+  const outsidePhrases = query.replace(PHRASE_PATTERN, " ").replace(PATH_PATTERN, "$1");
+  for (const match of outsidePhrases.matchAll(EXCLUDE_PATTERN)) {
+    excludeTerms.push(match[2].toLowerCase());
+  }
+  if (excludeTerms.length > 0) {
+    rest = rest.replace(EXCLUDE_PATTERN, (match, lead: string, term: string) =>
+      excludeTerms.includes(term.toLowerCase()) ? lead : match
+    );
+  }
+
+  // An operator-only query searches for the section or page prefix itself
+  const text = rest.replace(/\s+/g, " ").trim() ||
+    [...sections, ...pathPrefixes].join(" ").replace(/[\/\-_]+/g, " ").trim() ||
+    query.trim();
+
+  return {
+    text,
+    operators: {
+      phrases: [...new Set(phrases)],
+      excludeTerms: [...new Set(excludeTerms)],
+      pathPrefixes: [...new Set(pathPrefixes)],
+      sections: [...new Set(sections)],
+    },
   };
 }
 
@@ -143,12 +215,13 @@ function extractKeywords(query: string): string[] {
     codeRefs.push(...backtickMatches.map(m => m.replace(/`/g, "")));
   }
 
-  // Tokenize and filter
-  const words = query
-    .toLowerCase()
-    .replace(/[^\w\s\-_]/g, " ")
-    .split(/\s+/)
-    .filter(w => w.length > 2 && !STOP_WORDS.has(w));
+  // Tokenize and filter (identifiers stay whole; BM25 splits them again)
+  const words = tokenize(query, {
+    stopWords: QUERY_STOP_WORDS,
+    minLength: 3,
+    subTokens: false,
+    stem: false,
+  });
 
   // Combine code refs (high priority) with filtered words
   const allKeywords = [...codeRefs, ...words];
@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+import {
+  calibrate,
+  DEFAULT_CONFIDENCE_THRESHOLD,
+  fitCalibration,
+  fitPlatt,
+  getCalibration,
+  MIN_CALIBRATION_SAMPLES,
+  rawScore,
+  type CalibrationSample,
+  type ScoreSource,
+} from "./confidence";
+
+/** Deterministic samples whose labels follow a known sigmoid */
+function sigmoidSamples(source: ScoreSource, a: number, b: number, count: number): CalibrationSample[] {
+  return Array.from({ length: count }, (_, i) => {
+    const score = i / (count - 1);
+    return { source, score, label: 1 / (1 + Math.exp(-(a * score + b))) };
+  });
+}
+
+describe("rawScore", () => {
+  const result = { score: 0.8, semanticScore: 0.6, keywordScore: 12 };
+
+  test("uses rerank relevance when reranking ran", () => {
+    expect(rawScore(result, "ok")).toEqual({ source: "rerank", score: 0.8 });
+  });
+
+  test("falls back to semantic, then keyword scores", () => {
+    expect(rawScore(result, "fallback")).toEqual({ source: "semantic", score: 0.6 });
+    expect(rawScore({ ...result, semanticScore: null }, "disabled")).toEqual({
+      source: "keyword",
+      score: 12,
+    });
+    expect(rawScore({ ...result, semanticScore: null, keywordScore: null }, "disabled")).toBeNull();
+  });
+});
+
+describe("default calibration", () => {
+  test("puts the threshold where the old raw threshold of 0.3 was", () => {
+    for (const source of ["rerank", "semantic"] as const) {
+      expect(calibrate({ source, score: 0.3 })).toBeCloseTo(DEFAULT_CONFIDENCE_THRESHOLD, 2);
+    }
+  });
+
+  test("increases with the raw score", () => {
+    for (const source of ["rerank", "semantic", "keyword"] as const) {
+      expect(calibrate({ source, score: 0.9 })).toBeGreaterThan(calibrate({ source, score: 0.2 }));
+    }
+  });
+
+  test("is zero without a score", () => {
+    expect(calibrate(null)).toBe(0);
+  });
+});
+
+describe("fitPlatt", () => {
+  test("recovers the parameters of the labels' sigmoid", () => {
+    const params = fitPlatt(sigmoidSamples("semantic", 8, -4, 200))!;
+    expect(params.a).toBeCloseTo(8, 0);
+    expect(params.b).toBeCloseTo(-4, 0);
+    expect(params.samples).toBe(200);
+  });
+
+  test("needs enough samples with both outcomes", () => {
+    expect(fitPlatt(sigmoidSamples("semantic", 8, -4, MIN_CALIBRATION_SAMPLES - 1))).toBeNull();
+    const allPositive = sigmoidSamples("semantic", 8, -4, 50).map((s) => ({ ...s, label: 1 }));
+    expect(fitPlatt(allPositive)).toBeNull();
+  });
+
+  test("stays finite on separable samples", () => {
+    const separable = sigmoidSamples("rerank", 1, 0, 40).map((s) => ({
+      ...s,
+      label: s.score > 0.5 ? 1 : 0,
+    }));
+    const params = fitPlatt(separable)!;
+    expect(Number.isFinite(params.a)).toBe(true);
+    expect(params.a).toBeGreaterThan(0);
+  });
+});
+
+describe("fitCalibration", () => {
+  test("keeps previous parameters for sources without enough samples", () => {
+    const previous = getCalibration();
+    const fitted = fitCalibration(sigmoidSamples("semantic", 8, -4, 100), previous);
+    expect(fitted.sources.semantic).not.toBe(previous.sources.semantic);
+    expect(fitted.sources.rerank).toBe(previous.sources.rerank);
+    expect(fitted.sources.keyword).toBe(previous.sources.keyword);
+    expect(fitted.fittedAt).not.toBeNull();
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Confidence Calibration for docs-chat RAG pipeline.
+ * Maps the score behind a result onto a calibrated 0-1 confidence that the
+ * docs answer the question. What that score is depends on how retrieval ran
+ * (rerank relevance, semantic similarity, or BM25 for keyword-only hits), so
+ * each score source gets its own Platt (sigmoid) parameters.
+ *
+ * Parameters are read from confidence-calibration.json and fit offline from
+ * labeled samples or rated queries with `bun run fit:confidence`. The defaults
+ * (b = -a * threshold) put 0.5 where the raw 0.3 threshold used to be: rerank
+ * relevance 0.3, cosine similarity 0.3, and BM25 ~3.3 for keyword-only hits.
+ * Client `confidenceThreshold` values are on this calibrated scale.
+ */
+import calibrationFile from "./confidence-calibration.json";
+import type { RerankStatus } from "./reranker";
+
+export type ScoreSource = "rerank" | "semantic" | "keyword";
+
+export const SCORE_SOURCES: readonly ScoreSource[] = ["rerank", "semantic", "keyword"];
+
+/**
+ * Platt scaling parameters: confidence = 1 / (1 + exp(-(a * score + b))).
+ */
+export interface PlattParams {
+  a: number;
+  b: number;
+  /** Samples the parameters were fit on, 0 for the defaults */
+  samples: number;
+}
+
+export interface Calibration {
+  /** ISO timestamp of the last fit, null for the defaults */
+  fittedAt: string | null;
+  sources: Record<ScoreSource, PlattParams>;
+}
+
+/** An uncalibrated score and where it came from */
+export interface RawScore {
+  source: ScoreSource;
+  score: number;
+}
+
+export interface CalibrationSample extends RawScore {
+  /** 1 when the docs answered the question, 0 when not; fractions allowed */
+  label: number;
+}
+
+/** The scores a retrieved result may carry */
+export interface ScoredResult {
+  score: number;
+  semanticScore: number | null;
+  keywordScore: number | null;
+}
+
+/** Calibrated confidence below which the docs answer is treated as unreliable */
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.5;
+
+// Fewer samples than this per source keep the previous parameters
+export const MIN_CALIBRATION_SAMPLES = 20;
+
+const MAX_NEWTON_ITERATIONS = 100;
+const NEWTON_TOLERANCE = 1e-6;
+// Keeps the Hessian invertible when every sample has the same score
+const HESSIAN_RIDGE = 1e-9;
+
+const calibration = calibrationFile as Calibration;
+
+/**
+ * Get the calibration in use.
+ */
+export function getCalibration(): Calibration {
+  return calibration;
+}
+
+/**
+ * Pick the score that represents a result: rerank relevance when reranking
+ * ran, otherwise semantic similarity, otherwise BM25.
+ */
+export function rawScore(result: ScoredResult, rerank: RerankStatus): RawScore | null {
+  if (rerank === "ok") {
+    return { source: "rerank", score: result.score };
+  }
+  if (result.semanticScore !== null) {
+    return { source: "semantic", score: result.semanticScore };
+  }
+  if (result.keywordScore !== null) {
+    return { source: "keyword", score: result.keywordScore };
+  }
+  return null;
+}
+
+/**
+ * Map a raw score onto a calibrated 0-1 confidence.
+ */
+export function calibrate(
+  raw: RawScore | null,
+  sources: Record<ScoreSource, PlattParams> = calibration.sources
+): number {
+  if (!raw) return 0;
+  const { a, b } = sources[raw.source];
+  return sigmoid(a * raw.score + b);
+}
+
+/**
+ * Calibrated confidence of a single result.
+ */
+export function confidenceScore(result: ScoredResult, rerank: RerankStatus): number {
+  return calibrate(rawScore(result, rerank));
+}
+
+/**
+ * Computes a 1–5 relevance rank estimating how valuable the response is
+ * for an OpenClaw builder. Factors in calibrated confidence, coverage,
+ * query intent, and whether docs were used vs general fallback.
+ *
+ *   5 = Direct, high-confidence docs answer to a builder-actionable question
+ *   4 = Good docs coverage with solid relevance
+ *   3 = Partial docs match or general answer to a relevant topic
+ *   2 = Weak match, mostly general knowledge
+ *   1 = Off-topic or no useful docs found
+ */
+export function computeRelevanceRank(
+  confidence: number,
+  resultCount: number,
+  intent: string,
+  isLowConfidence: boolean,
+): number {
+  // Confidence component (0–2 points): calibrated retrieval quality
+  let rank = 2 * confidence;
+
+  // Coverage component (0–1 point): how many chunks matched
+  if (resultCount >= 5) rank += 1;
+  else if (resultCount >= 2) rank += 0.5;
+
+  // Intent component (0–1 point): builder-actionable intents score higher
+  if (intent === "lookup" || intent === "troubleshooting") rank += 1;
+  else if (intent === "conceptual") rank += 0.5;
+
+  // Docs vs general penalty (0–1 point)
+  if (!isLowConfidence) rank += 1;
+
+  return Math.max(1, Math.min(5, Math.round(rank)));
+}
+
+/**
+ * Fit Platt parameters for every source with enough samples; other sources
+ * keep their previous parameters.
+ */
+export function fitCalibration(
+  samples: CalibrationSample[],
+  previous: Calibration = calibration
+): Calibration {
+  const sources = { ...previous.sources };
+  for (const source of SCORE_SOURCES) {
+    const fitted = fitPlatt(samples.filter((s) => s.source === source));
+    if (fitted) {
+      sources[source] = fitted;
+    }
+  }
+  return { fittedAt: new Date().toISOString(), sources };
+}
+
+/**
+ * Fit Platt scaling to (score, label) samples by Newton's method on the
+ * log loss, with Platt's smoothed targets so separable data stays finite.
+ * Returns null without enough samples or without both outcomes.
+ */
+export function fitPlatt(samples: CalibrationSample[]): PlattParams | null {
+  const positives = samples.reduce((sum, s) => sum + s.label, 0);
+  const negatives = samples.length - positives;
+  if (samples.length < MIN_CALIBRATION_SAMPLES || positives === 0 || negatives === 0) {
+    return null;
+  }
+
+  const hiTarget = (positives + 1) / (positives + 2);
+  const loTarget = 1 / (negatives + 2);
+  const points = samples.map((s) => ({
+    x: s.score,
+    t: s.label * hiTarget + (1 - s.label) * loTarget,
+  }));
+
+  const loss = (a: number, b: number) =>
+    points.reduce((sum, { x, t }) => {
+      const z = a * x + b;
+      return sum + t * softplus(-z) + (1 - t) * softplus(z);
+    }, 0);
+
+  let a = 0;
+  let b = Math.log((positives + 1) / (negatives + 1));
+  let current = loss(a, b);
+
+  for (let i = 0; i < MAX_NEWTON_ITERATIONS; i++) {
+    let ga = 0;
+    let gb = 0;
+    let haa = HESSIAN_RIDGE;
+    let hab = 0;
+    let hbb = HESSIAN_RIDGE;
+    for (const { x, t } of points) {
+      const p = sigmoid(a * x + b);
+      const w = p * (1 - p);
+      ga += (p - t) * x;
+      gb += p - t;
+      haa += w * x * x;
+      hab += w * x;
+      hbb += w;
+    }
+    if (Math.abs(ga) < NEWTON_TOLERANCE && Math.abs(gb) < NEWTON_TOLERANCE) break;
+
+    const det = haa * hbb - hab * hab;
+    const da = (hbb * ga - hab * gb) / det;
+    const db = (haa * gb - hab * ga) / det;
+
+    // Backtrack until the step lowers the loss
+    let step = 1;
+    while (step > 1e-10) {
+      const next = loss(a - step * da, b - step * db);
+      if (next < current) {
+        a -= step * da;
+        b -= step * db;
+        current = next;
+        break;
+      }
+      step /= 2;
+    }
+    if (step <= 1e-10) break;
+  }
+
+  return Number.isFinite(a) && Number.isFinite(b)
+    ? { a, b, samples: samples.length }
+    : null;
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+// log(1 + e^z) without overflow
+function softplus(z: number): number {
+  return z > 0 ? z + Math.log1p(Math.exp(-z)) : Math.log1p(Math.exp(z));
+}
@@ -0,0 +1,96 @@
+/**
+ * Context Expansion for docs-chat RAG pipeline.
+ * Pulls the adjacent chunks of the strongest hits from the same page and
+ * joins them in page order, so an answer from the middle of a long page
+ * keeps the setup steps around it.
+ *
+ * Environment variables:
+ *   CONTEXT_EXPANSION_HITS - Number of top hits to expand (default: 3, 0 disables)
+ */
+import type { VectorStore } from "./vector-store";
+
+export interface ExpandableSource {
+  id: string;
+  content: string;
+  prevId?: string;
+  nextId?: string;
+}
+
+const DEFAULT_EXPANSION_HITS = 3;
+
+// Chunks split at markdown block boundaries (see chunker.ts), which are
+// blank lines; neighbors are joined back the same way
+const CHUNK_SEPARATOR = "\n\n";
+
+function getExpansionHits(): number {
+  const value = Number(process.env.CONTEXT_EXPANSION_HITS);
+  return process.env.CONTEXT_EXPANSION_HITS !== undefined && Number.isInteger(value) && value >= 0
+    ? value
+    : DEFAULT_EXPANSION_HITS;
+}
+
+/**
+ * Expand the top hits with their neighboring chunks.
+ * Neighbors that were also retrieved on their own are folded into the
+ * expanded hit instead of appearing twice. Order is preserved.
+ */
+export async function expandContext<T extends ExpandableSource>(
+  sources: T[],
+  store: VectorStore,
+  hits: number = getExpansionHits()
+): Promise<Array<T & { expanded?: boolean }>> {
+  const top = sources.slice(0, hits);
+  const byId = new Map<string, string>(sources.map((s) => [s.id, s.content]));
+
+  const missingIds = [
+    ...new Set(top.flatMap((s) => [s.prevId, s.nextId])),
+  ].filter((id): id is string => !!id && !byId.has(id));
+
+  if (top.length === 0 || top.every((s) => !s.prevId && !s.nextId)) {
+    return sources;
+  }
+
+  if (missingIds.length > 0) {
+    try {
+      const fetched = await store.fetchByIds(missingIds);
+      fetched.forEach((chunk) => byId.set(chunk.id, chunk.content));
+    } catch (error) {
+      console.warn("Context expansion failed, using hits only:", error);
+      return sources;
+    }
+  }
+
+  const consumed = new Set<string>();
+  const expanded: Array<T & { expanded?: boolean }> = [];
+
+  sources.forEach((source, index) => {
+    if (consumed.has(source.id)) return;
+    consumed.add(source.id);
+
+    if (index >= hits) {
+      expanded.push(source);
+      return;
+    }
+
+    let content = source.content;
+    const prev = source.prevId && !consumed.has(source.prevId) ? byId.get(source.prevId) : undefined;
+    const next = source.nextId && !consumed.has(source.nextId) ? byId.get(source.nextId) : undefined;
+
+    if (prev !== undefined) {
+      content = `${prev}${CHUNK_SEPARATOR}${content}`;
+      consumed.add(source.prevId!);
+    }
+    if (next !== undefined) {
+      content = `${content}${CHUNK_SEPARATOR}${next}`;
+      consumed.add(source.nextId!);
+    }
+
+    expanded.push(
+      prev !== undefined || next !== undefined
+        ? { ...source, content, expanded: true }
+        : source
+    );
+  });
+
+  return expanded;
+}
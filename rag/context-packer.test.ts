@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { packContext, trimToBoundary } from "./context-packer";
+
+function source(id: string, score: number, content: string) {
+  return { id, title: id, url: `https://docs.test/${id}`, content, score };
+}
+
+const longText = "Sentence one is here. ".repeat(60);
+
+describe("packContext", () => {
+  test("keeps short sources untouched within the budget", () => {
+    const sources = [source("a", 1, "short a"), source("b", 0.5, "short b")];
+    const packed = packContext(sources, 1000);
+    expect(packed.sources).toEqual(sources);
+    expect(packed.dropped).toBe(0);
+  });
+
+  test("drops sources scoring under a fifth of the best", () => {
+    const packed = packContext([source("a", 1, "short a"), source("b", 0.1, "short b")], 1000);
+    expect(packed.sources.map((s) => s.id)).toEqual(["a"]);
+    expect(packed.dropped).toBe(1);
+  });
+
+  test("trims long sources to their share of the budget", () => {
+    const packed = packContext([source("a", 1, longText), source("b", 1, longText)], 300);
+    expect(packed.sources).toHaveLength(2);
+    expect(packed.tokens).toBeLessThanOrEqual(300);
+    for (const s of packed.sources) {
+      expect(s.content.length).toBeLessThan(longText.length);
+      expect(s.content.endsWith("here. …")).toBe(true);
+    }
+  });
+
+  test("gives higher-scoring sources a larger share", () => {
+    const packed = packContext([source("a", 1, longText), source("b", 0.5, longText)], 300);
+    const [a, b] = packed.sources;
+    expect(a.content.length).toBeGreaterThan(b.content.length);
+  });
+});
+
+describe("trimToBoundary", () => {
+  test("returns text within the limit unchanged", () => {
+    expect(trimToBoundary("short", 10)).toBe("short");
+  });
+
+  test("cuts at a paragraph or sentence boundary", () => {
+    const text = "First paragraph is here.\n\nSecond paragraph goes on for a while longer.";
+    expect(trimToBoundary(text, 40)).toBe("First paragraph is here. …");
+  });
+
+  test("does not cut inside a code block", () => {
+    const text = "Intro text that is long enough.\n\n```ts\nconst a = 1;\nconst b = 2;\n```";
+    expect(trimToBoundary(text, 50)).toBe("Intro text that is long enough.\n…");
+  });
+
+  test("closes the fence when the code block fills the budget", () => {
+    const text = "```ts\nconst a = 1;\nconst b = 2;\nconst c = 3;\n```";
+    expect(trimToBoundary(text, 30)).toBe("```ts\nconst a = 1;\nconst b = 2\n```\n…");
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Context Packer for docs-chat RAG pipeline.
+ * Fits retrieved chunks into a token budget: budget is shared out by
+ * rerank score, chunks are trimmed at sentence or code-block boundaries,
+ * and low-value chunks are dropped.
+ */
+import { estimateTokens } from "./conversation";
+import { buildSourceHeader, type ContextSource } from "./prompts";
+
+export interface PackableSource extends ContextSource {
+  /** Relevance score, higher is better */
+  score: number;
+}
+
+export interface PackedContext<T extends PackableSource> {
+  sources: T[];
+  /** Estimated tokens of the packed context block */
+  tokens: number;
+  dropped: number;
+}
+
+// Default context budget for models without `contextTokens`
+export const DEFAULT_CONTEXT_TOKENS = 3000;
+
+// Chunks scoring below this fraction of the best score are dropped
+const MIN_RELATIVE_SCORE = 0.2;
+
+// Trimming a chunk below this many tokens leaves too little to be useful
+const MIN_CHUNK_TOKENS = 60;
+
+// Separator between sources in the context block (see buildContext)
+const SOURCE_SEPARATOR_TOKENS = estimateTokens("\n\n---\n\n");
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Pack sources (in relevance order) into a token budget.
+ * Each source gets a share of the remaining budget proportional to its score;
+ * whatever a short chunk does not use rolls over to the ones after it.
+ */
+export function packContext<T extends PackableSource>(
+  sources: T[],
+  budgetTokens: number
+): PackedContext<T> {
+  const bestScore = Math.max(0, ...sources.map((s) => s.score));
+  const eligible = sources.filter(
+    (s, i) => i === 0 || bestScore <= 0 || s.score >= bestScore * MIN_RELATIVE_SCORE
+  );
+
+  const weightOf = (s: T) => Math.max(s.score, 0.01);
+  let remainingWeight = eligible.reduce((sum, s) => sum + weightOf(s), 0);
+  let remainingBudget = budgetTokens;
+  let tokens = 0;
+  const packed: T[] = [];
+
+  for (const source of eligible) {
+    const weight = weightOf(source);
+    const allocation = Math.floor((remainingBudget * weight) / remainingWeight);
+    remainingWeight -= weight;
+
+    const headerTokens =
+      estimateTokens(`${buildSourceHeader(source)}\n`) +
+      (packed.length > 0 ? SOURCE_SEPARATOR_TOKENS : 0);
+    const contentBudget = allocation - headerTokens;
+    const contentTokens = estimateTokens(source.content);
+
+    let content = source.content;
+    if (contentTokens > contentBudget) {
+      if (contentBudget < MIN_CHUNK_TOKENS) continue;
+      content = trimToBoundary(source.content, contentBudget * CHARS_PER_TOKEN);
+    }
+
+    const used = headerTokens + estimateTokens(content);
+    remainingBudget -= used;
+    tokens += used;
+    packed.push(content === source.content ? source : { ...source, content });
+  }
+
+  return { sources: packed, tokens, dropped: sources.length - packed.length };
+}
+
+/**
+ * Cut text to at most `maxChars`, ending at a paragraph, sentence or line
+ * break and never inside a fenced code block.
+ */
+export function trimToBoundary(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+
+  let cut = text.slice(0, maxChars);
+
+  // An odd number of fences means the cut lands inside a code block
+  const fences = cut.match(/```/g)?.length ?? 0;
+  if (fences % 2 === 1) {
+    const fenceStart = cut.lastIndexOf("```");
+    if (fenceStart > maxChars / 3) {
+      return `${cut.slice(0, fenceStart).trimEnd()}\n…`;
+    }
+    // The block is most of the budget: keep it and close the fence
+    return `${cut.trimEnd()}\n\`\`\`\n…`;
+  }
+
+  for (const boundary of ["\n\n", ". ", ".\n", "\n"]) {
+    const at = cut.lastIndexOf(boundary);
+    if (at > maxChars / 2) {
+      cut = cut.slice(0, at + (boundary.startsWith(".") ? 1 : 0));
+      return `${cut.trimEnd()} …`;
+    }
+  }
+
+  return `${cut.trimEnd()}…`;
+}
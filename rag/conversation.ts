@@ -0,0 +1,211 @@
+/**
+ * Conversation Memory for docs-chat RAG pipeline.
+ * Stores multi-turn chat history in Redis, rewrites follow-up questions
+ * into standalone retrieval queries, and packs prior turns into a token budget.
+ */
+import { Redis } from "@upstash/redis";
+import { classifyQuery } from "./classifier";
+
+export type ConversationRole = "user" | "assistant";
+
+export interface ConversationTurn {
+  role: ConversationRole;
+  content: string;
+  timestamp?: number;
+}
+
+// Key prefix for Redis storage
+const CONVERSATION_KEY = "conv:";
+
+// Retention settings
+const CONVERSATION_TTL = 60 * 60 * 24; // 24 hours since last turn
+const MAX_STORED_TURNS = 20;
+
+// Client-supplied history limits
+const MAX_HISTORY_TURNS = 20;
+const MAX_TURN_LENGTH = 8000;
+
+// Rough chars-per-token ratio for English prose and code
+const CHARS_PER_TOKEN = 4;
+
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+// Signals that a message depends on earlier turns
+const FOLLOW_UP_PATTERNS = [
+  /^(and|also|but|so|then|ok(ay)?|what about|how about)\b/i,
+  /\b(it|its|that|this|those|these|them|they|there|one|ones)\b/i,
+];
+
+// Conjunctions stripped from the front of a follow-up before rewriting
+const LEADING_FILLER = /^(and|also|but|so|then|ok(ay)?)[\s,]+/i;
+
+const MAX_CONTEXT_KEYWORDS = 6;
+
+/**
+ * Redis-backed store for conversation turns.
+ * Degrades to a no-op when Redis is not configured.
+ */
+export class ConversationStore {
+  private redis: Redis | null = null;
+
+  constructor() {
+    const url = process.env.UPSTASH_REDIS_REST_URL;
+    const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+    if (url && token) {
+      this.redis = new Redis({ url, token });
+    }
+  }
+
+  get enabled(): boolean {
+    return this.redis !== null;
+  }
+
+  /**
+   * Load stored turns for a conversation (oldest first).
+   */
+  async getTurns(conversationId: string): Promise<ConversationTurn[]> {
+    if (!this.redis) return [];
+
+    try {
+      // Upstash may return parsed JSON objects or strings
+      const items = await this.redis.lrange<string | ConversationTurn>(
+        `${CONVERSATION_KEY}${conversationId}`,
+        0,
+        -1
+      );
+      return items.map((item) =>
+        typeof item === "string" ? (JSON.parse(item) as ConversationTurn) : item
+      );
+    } catch (error) {
+      console.error("Failed to load conversation:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Append turns to a conversation, keeping only the most recent ones.
+   */
+  async appendTurns(
+    conversationId: string,
+    turns: ConversationTurn[]
+  ): Promise<void> {
+    if (!this.redis || turns.length === 0) return;
+
+    const key = `${CONVERSATION_KEY}${conversationId}`;
+    const pipeline = this.redis.pipeline();
+
+    pipeline.rpush(key, ...turns.map((turn) => JSON.stringify(turn)));
+    pipeline.ltrim(key, -MAX_STORED_TURNS, -1);
+    pipeline.expire(key, CONVERSATION_TTL);
+
+    await pipeline.exec();
+  }
+}
+
+/**
+ * Generate a new conversation ID.
+ */
+export function generateConversationId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Check that a client-supplied conversation ID is safe to use as a key.
+ */
+export function isValidConversationId(value: unknown): value is string {
+  return typeof value === "string" && CONVERSATION_ID_PATTERN.test(value);
+}
+
+/**
+ * Validate a client-supplied `messages` array.
+ * Returns null if the shape is invalid. System messages are ignored
+ * because the server owns the system prompt.
+ */
+export function parseHistory(raw: unknown): ConversationTurn[] | null {
+  if (!Array.isArray(raw)) return null;
+
+  const turns: ConversationTurn[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object") return null;
+    const { role, content } = item as { role?: unknown; content?: unknown };
+    if (typeof content !== "string") return null;
+    if (role === "system") continue;
+    if (role !== "user" && role !== "assistant") return null;
+    turns.push({ role, content: content.slice(0, MAX_TURN_LENGTH) });
+  }
+
+  return turns.slice(-MAX_HISTORY_TURNS);
+}
+
+/**
+ * Estimate token count for a piece of text.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Select the most recent turns that fit within a token budget.
+ * The newest turn is truncated rather than dropped if it alone exceeds the budget.
+ */
+export function packHistory(
+  turns: ConversationTurn[],
+  budgetTokens: number
+): ConversationTurn[] {
+  const packed: ConversationTurn[] = [];
+  let used = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const turn = turns[i];
+    const tokens = estimateTokens(turn.content);
+
+    if (used + tokens > budgetTokens) {
+      if (packed.length === 0 && budgetTokens > 0) {
+        packed.unshift({
+          role: turn.role,
+          content: turn.content.slice(-budgetTokens * CHARS_PER_TOKEN),
+        });
+      }
+      break;
+    }
+
+    packed.unshift({ role: turn.role, content: turn.content });
+    used += tokens;
+  }
+
+  // Chat APIs expect the history to open with a user turn
+  while (packed.length > 0 && packed[0].role !== "user") {
+    packed.shift();
+  }
+
+  return packed;
+}
+
+/**
+ * Rewrites a follow-up question into a standalone retrieval query.
+ * Follow-ups ("and how do I configure that?") are anchored with keywords
+ * from the previous user question so retrieval sees the original topic.
+ */
+export function rewriteFollowUp(
+  message: string,
+  history: ConversationTurn[]
+): string {
+  const previous = [...history].reverse().find((turn) => turn.role === "user");
+  if (!previous) return message;
+
+  const isFollowUp =
+    FOLLOW_UP_PATTERNS.some((p) => p.test(message)) ||
+    message.split(/\s+/).length <= 3;
+  if (!isFollowUp) return message;
+
+  const lowered = message.toLowerCase();
+  const contextKeywords = classifyQuery(previous.content)
+    .keywords.filter((kw) => !lowered.includes(kw.toLowerCase()))
+    .slice(0, MAX_CONTEXT_KEYWORDS);
+
+  if (contextKeywords.length === 0) return message;
+
+  const stripped = message.replace(LEADING_FILLER, "").trim() || message;
+  return `${stripped} ${contextKeywords.join(" ")}`;
+}
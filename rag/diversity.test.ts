@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+import { diversify, type DiversityCandidate } from "./diversity";
+
+function candidate(id: string, path: string, score: number, content: string): DiversityCandidate {
+  return { id, path, score, content };
+}
+
+const candidates = [
+  candidate("a", "/gateway", 1.0, "configure the gateway port and bind address"),
+  candidate("a2", "/gateway-copy", 0.95, "configure the gateway port and bind address"),
+  candidate("b", "/agents", 0.9, "agents run skills in a sandbox"),
+  candidate("c", "/cli", 0, "unrelated command reference"),
+];
+
+const ids = (results: DiversityCandidate[]) => results.map((r) => r.id);
+
+describe("diversify", () => {
+  test("keeps relevance order without MMR or a page cap", () => {
+    expect(ids(diversify(candidates, { limit: 3, lambda: 1, maxPerPage: 0 }))).toEqual([
+      "a",
+      "a2",
+      "b",
+    ]);
+  });
+
+  test("demotes near-duplicates of selected results", () => {
+    expect(ids(diversify(candidates, { limit: 3, lambda: 0.7, maxPerPage: 0 }))).toEqual([
+      "a",
+      "b",
+      "a2",
+    ]);
+  });
+
+  test("prefers embedding similarity over token overlap", () => {
+    const vectors = new Map([
+      ["a", [1, 0]],
+      ["a2", [0, 1]],
+      ["b", [1, 0.05]],
+      ["c", [0, 1]],
+    ]);
+    expect(ids(diversify(candidates, { limit: 2, lambda: 0.7, maxPerPage: 0, vectors }))).toEqual([
+      "a",
+      "a2",
+    ]);
+  });
+
+  test("caps chunks per page", () => {
+    const samePage = [
+      candidate("p1", "/gateway", 1, "one"),
+      candidate("p2", "/gateway", 0.9, "two"),
+      candidate("p3", "/gateway", 0.8, "three"),
+      candidate("q1", "/cli", 0.1, "four"),
+    ];
+    expect(ids(diversify(samePage, { limit: 3, lambda: 1, maxPerPage: 2 }))).toEqual([
+      "p1",
+      "p2",
+      "q1",
+    ]);
+  });
+
+  test("stops when every remaining page is at its cap", () => {
+    const samePage = [
+      candidate("p1", "/gateway", 1, "one"),
+      candidate("p2", "/gateway", 0.9, "two"),
+    ];
+    expect(ids(diversify(samePage, { limit: 2, lambda: 1, maxPerPage: 1 }))).toEqual(["p1"]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Result Diversification for docs-chat RAG pipeline.
+ * Applies Maximal Marginal Relevance (MMR) after reranking so overlapping
+ * "(Part N)" chunks of one page do not crowd out other sources.
+ *
+ * Environment variables:
+ *   DIVERSITY_LAMBDA - Relevance vs. novelty trade-off, 0-1 (default: 0.7, 1 disables MMR)
+ *   MAX_CHUNKS_PER_PAGE - Cap on chunks from one page (default: 3, 0 = no cap)
+ */
+import { tokenize } from "./tokenizer";
+
+export interface DiversityCandidate {
+  id: string;
+  path: string;
+  content: string;
+  /** Relevance score, higher is better */
+  score: number;
+}
+
+export interface DiversityOptions {
+  limit: number;
+  /** Weight of relevance against similarity to already selected results */
+  lambda?: number;
+  maxPerPage?: number;
+  /** Chunk embeddings; token overlap is used for candidates without one */
+  vectors?: Map<string, number[]>;
+}
+
+const DEFAULT_LAMBDA = 0.7;
+const DEFAULT_MAX_PER_PAGE = 3;
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Select up to `limit` candidates balancing relevance against redundancy.
+ * Candidates are expected in relevance order.
+ */
+export function diversify<T extends DiversityCandidate>(
+  candidates: T[],
+  options: DiversityOptions
+): T[] {
+  const lambda = options.lambda ?? readNumber("DIVERSITY_LAMBDA", DEFAULT_LAMBDA);
+  const maxPerPage = options.maxPerPage ?? readNumber("MAX_CHUNKS_PER_PAGE", DEFAULT_MAX_PER_PAGE);
+  const vectors = options.vectors ?? new Map<string, number[]>();
+
+  const relevance = normalize(candidates.map((c) => c.score));
+  const tokenSets = new Map<string, Set<string>>();
+  const tokensOf = (c: T) => {
+    let tokens = tokenSets.get(c.id);
+    if (!tokens) {
+      tokens = new Set(tokenize(c.content, { stem: false }));
+      tokenSets.set(c.id, tokens);
+    }
+    return tokens;
+  };
+  const similarity = (a: T, b: T) => {
+    const va = vectors.get(a.id);
+    const vb = vectors.get(b.id);
+    return va && vb ? cosineSimilarity(va, vb) : jaccard(tokensOf(a), tokensOf(b));
+  };
+
+  const selected: T[] = [];
+  const perPage = new Map<string, number>();
+  const remaining = candidates.map((candidate, index) => ({ candidate, index }));
+
+  while (selected.length < options.limit && remaining.length > 0) {
+    let bestPos = -1;
+    let bestScore = -Infinity;
+
+    for (let pos = 0; pos < remaining.length; pos++) {
+      const { candidate, index } = remaining[pos];
+      if (maxPerPage > 0 && (perPage.get(candidate.path) || 0) >= maxPerPage) {
+        continue;
+      }
+
+      const redundancy = lambda < 1 && selected.length > 0
+        ? Math.max(...selected.map((s) => similarity(candidate, s)))
+        : 0;
+      const score = lambda * relevance[index] - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestPos = pos;
+      }
+    }
+
+    // Every remaining candidate is from a page at its cap
+    if (bestPos === -1) break;
+
+    const [{ candidate }] = remaining.splice(bestPos, 1);
+    selected.push(candidate);
+    perPage.set(candidate.path, (perPage.get(candidate.path) || 0) + 1);
+  }
+
+  return selected;
+}
+
+/**
+ * Min-max normalize scores to 0-1.
+ */
+function normalize(scores: number[]): number[] {
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  return scores.map((s) => (range === 0 ? 1 : (s - min) / range));
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
@@ -0,0 +1,167 @@
+/**
+ * Query Embedding Cache for docs-chat RAG pipeline.
+ * Caches query embeddings in Upstash Redis so repeated questions skip the
+ * embedding API call. Entries are keyed by embedding model, index version and
+ * a hash of the normalized query text, and bounded by TTL and entry count.
+ *
+ * Environment variables:
+ *   EMBEDDING_CACHE_TTL - Entry lifetime in seconds (default: 604800, 0 disables)
+ *   EMBEDDING_CACHE_MAX_ENTRIES - Entries kept before the oldest are evicted (default: 10000)
+ */
+import { Redis } from "@upstash/redis";
+import type { EmbeddingProvider, EmbeddingProviderName } from "./embeddings";
+import { getIndexVersion } from "./index-version";
+
+export type EmbeddingCacheOutcome = "hit" | "miss";
+
+const KEY_PREFIX = "emb:";
+// Sorted set of cache keys by write time, for size-bounded eviction
+const ENTRIES_KEY = "emb:entries";
+
+const DEFAULT_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+function getRedis(): Redis | null {
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+  if (!url || !token) {
+    return null;
+  }
+
+  return new Redis({ url, token });
+}
+
+function readInteger(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isInteger(value) && value >= 0
+    ? value
+    : fallback;
+}
+
+/**
+ * Embedding provider wrapper that caches single-query embeddings.
+ * Batch embedding (indexing) is passed through uncached.
+ * Cache errors never fail a query; they count as misses.
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  readonly provider: EmbeddingProviderName;
+  readonly model: string;
+  readonly dimensions: number;
+
+  /** Cache lookups made through this instance */
+  hits = 0;
+  misses = 0;
+
+  private readonly ttlSeconds = readInteger("EMBEDDING_CACHE_TTL", DEFAULT_TTL_SECONDS);
+  private readonly maxEntries = readInteger("EMBEDDING_CACHE_MAX_ENTRIES", DEFAULT_MAX_ENTRIES);
+
+  constructor(
+    private readonly inner: EmbeddingProvider,
+    private readonly redis: Redis | null = getRedis(),
+  ) {
+    this.provider = inner.provider;
+    this.model = inner.model;
+    this.dimensions = inner.dimensions;
+  }
+
+  /**
+   * Outcome of this request's lookups: a miss if any query had to be embedded.
+   * Undefined when caching is off or nothing was embedded.
+   */
+  get outcome(): EmbeddingCacheOutcome | undefined {
+    if (this.misses > 0) return "miss";
+    return this.hits > 0 ? "hit" : undefined;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    if (!this.redis || this.ttlSeconds === 0) {
+      return this.inner.embed(text);
+    }
+
+    let key: string | null = null;
+    try {
+      key = await this.cacheKey(text);
+      const cached = await this.redis.get<string>(key);
+      if (cached) {
+        this.hits++;
+        return decodeVector(cached);
+      }
+    } catch (error) {
+      console.warn("Embedding cache read failed:", error);
+    }
+
+    this.misses++;
+    const vector = await this.inner.embed(text);
+    if (key) {
+      this.store(key, vector).catch((error) => {
+        console.warn("Embedding cache write failed:", error);
+      });
+    }
+    return vector;
+  }
+
+  embedBatch(texts: string[]): Promise<number[][]> {
+    return this.inner.embedBatch(texts);
+  }
+
+  private async cacheKey(text: string): Promise<string> {
+    const version = (await getIndexVersion()) ?? "0";
+    const hash = await sha256Hex(normalizeQuery(text));
+    return `${KEY_PREFIX}${this.provider}:${this.model}:${this.dimensions}:${version}:${hash}`;
+  }
+
+  /**
+   * Write an entry and evict the oldest ones beyond the size bound.
+   */
+  private async store(key: string, vector: number[]): Promise<void> {
+    const redis = this.redis!;
+    const now = Date.now();
+
+    const pipeline = redis.pipeline();
+    pipeline.set(key, encodeVector(vector), { ex: this.ttlSeconds });
+    pipeline.zadd(ENTRIES_KEY, { score: now, member: key });
+    // Entries past their TTL are already gone from Redis
+    pipeline.zremrangebyscore(ENTRIES_KEY, 0, now - this.ttlSeconds * 1000);
+    pipeline.zcard(ENTRIES_KEY);
+    const results = await pipeline.exec();
+
+    const size = results[results.length - 1] as number;
+    if (size <= this.maxEntries) return;
+
+    const evicted = await redis.zrange<string[]>(ENTRIES_KEY, 0, size - this.maxEntries - 1);
+    if (evicted.length === 0) return;
+
+    const eviction = redis.pipeline();
+    eviction.del(...evicted);
+    eviction.zrem(ENTRIES_KEY, ...evicted);
+    await eviction.exec();
+  }
+}
+
+/**
+ * Normalize query text so trivially different spellings share an entry.
+ */
+export function normalizeQuery(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Encode a vector as base64 float32 (a quarter of the JSON size).
+ */
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString("base64");
+}
+
+function decodeVector(encoded: string): number[] {
+  // Copy out of Node's shared buffer pool, which is not 4-byte aligned
+  const bytes = new Uint8Array(Buffer.from(encoded, "base64"));
+  return Array.from(new Float32Array(bytes.buffer));
+}
+
+async function sha256Hex(data: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(data));
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -1,48 +1,134 @@
 /**
- * Gemini Embeddings wrapper for docs-chat RAG pipeline.
- * Provides single and batch embedding generation.
+ * Embedding Providers for docs-chat RAG pipeline.
+ * Provides single and batch embedding generation behind one interface,
+ * backed by Gemini, OpenAI or a CPU-local transformers.js model.
  *
- * Switched from OpenAI text-embedding-3-large to Gemini gemini-embedding-001
- * to eliminate dependency on the frequently-revoked OPENAI_API_KEY.
- * The OpenClaw memory-search layer already uses Gemini successfully.
+ * The index records the provider, model and dimensions that built it
+ * (see VectorStore.getEmbeddingModel); queries refuse to run against an
+ * index built with a different model, since the vectors are not comparable.
  *
- * Gemini gemini-embedding-001 produces 3072-dimensional vectors —
- * identical dimensionality to OpenAI text-embedding-3-large, so
- * the Upstash Vector index schema is unchanged.
+ * Environment variables:
+ *   EMBEDDING_PROVIDER - "gemini" (default), "openai" or "local"
+ *   EMBEDDING_MODEL - Model name (default depends on the provider)
+ *   GEMINI_API_KEY / OPENAI_API_KEY - Credentials for the hosted providers
  */
 
-const DEFAULT_MODEL = "gemini-embedding-001";
-const EMBEDDING_DIMENSIONS: Record<string, number> = {
-  "gemini-embedding-001": 3072,
-  "text-embedding-004": 768,
+export type EmbeddingProviderName = "gemini" | "openai" | "local";
+
+/** Identifies the embedding space an index was built in */
+export interface EmbeddingModelInfo {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+}
+
+/**
+ * Common interface for embedding backends.
+ * `embedBatch` returns embeddings in the same order as the input texts.
+ */
+export interface EmbeddingProvider extends EmbeddingModelInfo {
+  embed(text: string): Promise<number[]>;
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
+
+const DEFAULT_MODELS: Record<EmbeddingProviderName, string> = {
+  gemini: "gemini-embedding-001",
+  openai: "text-embedding-3-large",
+  local: "Xenova/all-MiniLM-L6-v2",
+};
+
+const EMBEDDING_DIMENSIONS: Record<EmbeddingProviderName, Record<string, number>> = {
+  gemini: {
+    "gemini-embedding-001": 3072,
+    "text-embedding-004": 768,
+  },
+  openai: {
+    "text-embedding-3-large": 3072,
+    "text-embedding-3-small": 1536,
+    "text-embedding-ada-002": 1536,
+  },
+  local: {
+    "Xenova/all-MiniLM-L6-v2": 384,
+    "Xenova/bge-small-en-v1.5": 384,
+    "Xenova/bge-base-en-v1.5": 768,
+  },
+};
+
+/**
+ * Model that built indexes created before the embedding model was recorded.
+ */
+export const LEGACY_INDEX_EMBEDDING: EmbeddingModelInfo = {
+  provider: "gemini",
+  model: "gemini-embedding-001",
+  dimensions: 3072,
 };
 
 // Gemini free tier: 100 embed requests per minute per project
 // Each batchEmbedContents call counts as 1 request per text in the batch.
 // To stay within the free tier: send batches of 50 with a 35s delay between batches.
 // This is conservative — upgrade to paid tier to remove the delay.
-const MAX_BATCH_SIZE = 50;
-const BATCH_DELAY_MS = 35_000; // 35s between batches (~80 req/min, safely under 100)
+const GEMINI_BATCH_SIZE = 50;
+const GEMINI_BATCH_DELAY_MS = 35_000; // 35s between batches (~80 req/min, safely under 100)
+
+// OpenAI accepts up to 2048 inputs per request; smaller batches keep bodies small
+const OPENAI_BATCH_SIZE = 256;
+
+// Local inference is CPU-bound; small batches keep memory flat
+const LOCAL_BATCH_SIZE = 32;
 
 const GEMINI_EMBED_BASE =
   "https://generativelanguage.googleapis.com/v1beta/models";
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+// Optional dependency, resolved at runtime so builds without it still compile
+const TRANSFORMERS_MODULE = "@huggingface/transformers";
+
+/** The parts of transformers.js used by local embeddings and reranking */
+export interface TransformersModule {
+  pipeline(task: string, model: string): Promise<unknown>;
+  AutoTokenizer: { from_pretrained(model: string): Promise<unknown> };
+  AutoModelForSequenceClassification: { from_pretrained(model: string): Promise<unknown> };
+}
+
+/**
+ * Import transformers.js, which is an optional dependency.
+ * Used by EMBEDDING_PROVIDER=local and RERANKER=local.
+ */
+export async function importTransformers(): Promise<TransformersModule> {
+  try {
+    return await import(/* webpackIgnore: true */ TRANSFORMERS_MODULE);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Local models need the optional ${TRANSFORMERS_MODULE} package, which failed to load ` +
+        `(${reason}). Install it with: npm install ${TRANSFORMERS_MODULE}`
+    );
+  }
+}
 
-export class Embeddings {
-  private apiKey: string;
-  private model: string;
-  public readonly dimensions: number;
+function resolveDimensions(provider: EmbeddingProviderName, model: string): number {
+  const dims = EMBEDDING_DIMENSIONS[provider][model];
+  if (!dims) {
+    throw new Error(`Unsupported ${provider} embedding model: ${model}`);
+  }
+  return dims;
+}
+
+/**
+ * Gemini embedContent / batchEmbedContents provider.
+ */
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly provider: EmbeddingProviderName = "gemini";
+  readonly dimensions: number;
 
-  constructor(apiKey: string, model: string = DEFAULT_MODEL) {
+  constructor(
+    private readonly apiKey: string,
+    readonly model: string = DEFAULT_MODELS.gemini,
+  ) {
     if (!apiKey) {
-      throw new Error("GEMINI_API_KEY is required for embeddings");
+      throw new Error("GEMINI_API_KEY is required for Gemini embeddings");
     }
-    const dims = EMBEDDING_DIMENSIONS[model];
-    if (!dims) {
-      throw new Error(`Unsupported embedding model: ${model}`);
-    }
-    this.apiKey = apiKey;
-    this.model = model;
-    this.dimensions = dims;
+    this.dimensions = resolveDimensions("gemini", model);
   }
 
   /**
@@ -70,22 +156,17 @@ export class Embeddings {
 
   /**
    * Generate embeddings for multiple texts in batches.
-   * Returns embeddings in the same order as input texts.
    */
   async embedBatch(texts: string[]): Promise<number[][]> {
-    if (texts.length === 0) {
-      return [];
-    }
-
     const results: number[][] = [];
 
-    for (let i = 0; i < texts.length; i += MAX_BATCH_SIZE) {
+    for (let i = 0; i < texts.length; i += GEMINI_BATCH_SIZE) {
       // Rate-limit: wait between batches to respect Gemini free tier quota
       if (i > 0) {
-        await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
+        await new Promise((resolve) => setTimeout(resolve, GEMINI_BATCH_DELAY_MS));
       }
 
-      const batch = texts.slice(i, i + MAX_BATCH_SIZE);
+      const batch = texts.slice(i, i + GEMINI_BATCH_SIZE);
 
       // Gemini batchEmbedContents endpoint
       const url = `${GEMINI_EMBED_BASE}/${this.model}:batchEmbedContents?key=${this.apiKey}`;
@@ -116,3 +197,171 @@ export class Embeddings {
     return results;
   }
 }
+
+/**
+ * OpenAI /embeddings provider.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly provider: EmbeddingProviderName = "openai";
+  readonly dimensions: number;
+
+  constructor(
+    private readonly apiKey: string,
+    readonly model: string = DEFAULT_MODELS.openai,
+  ) {
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY is required for OpenAI embeddings");
+    }
+    this.dimensions = resolveDimensions("openai", model);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [vector] = await this.request([text]);
+    return vector;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const results: number[][] = [];
+    for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+      results.push(...(await this.request(texts.slice(i, i + OPENAI_BATCH_SIZE))));
+    }
+    return results;
+  }
+
+  private async request(input: string[]): Promise<number[][]> {
+    const response = await fetch(`${OPENAI_BASE_URL}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({ model: this.model, input }),
+    });
+    if (!response.ok) {
+      const err = await response.text();
+      throw new Error(`OpenAI embed failed (${response.status}): ${err}`);
+    }
+    const data = (await response.json()) as {
+      data: Array<{ index: number; embedding: number[] }>;
+    };
+    // Results carry their input index; do not rely on response order
+    return data.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: "mean"; normalize: boolean }
+) => Promise<{ tolist(): number[][] }>;
+
+// Loaded models per name; loading an ONNX model takes seconds
+const extractors = new Map<string, Promise<FeatureExtractor>>();
+
+/**
+ * CPU-local sentence embeddings via transformers.js (ONNX runtime).
+ * Requires the optional `@huggingface/transformers` package; model weights
+ * are downloaded and cached on first use.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly provider: EmbeddingProviderName = "local";
+  readonly dimensions: number;
+
+  constructor(readonly model: string = DEFAULT_MODELS.local) {
+    this.dimensions = resolveDimensions("local", model);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [vector] = await this.embedBatch([text]);
+    return vector;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const extractor = await this.loadExtractor();
+    const results: number[][] = [];
+    for (let i = 0; i < texts.length; i += LOCAL_BATCH_SIZE) {
+      const output = await extractor(texts.slice(i, i + LOCAL_BATCH_SIZE), {
+        pooling: "mean",
+        normalize: true,
+      });
+      results.push(...output.tolist());
+    }
+    return results;
+  }
+
+  private loadExtractor(): Promise<FeatureExtractor> {
+    let extractor = extractors.get(this.model);
+    if (!extractor) {
+      extractor = importTransformers().then(
+        ({ pipeline }) => pipeline("feature-extraction", this.model) as Promise<FeatureExtractor>
+      );
+      // Let a failed load be retried on the next call
+      extractor.catch(() => extractors.delete(this.model));
+      extractors.set(this.model, extractor);
+    }
+    return extractor;
+  }
+}
+
+/**
+ * Get the configured embedding provider name.
+ */
+export function getEmbeddingProviderName(): EmbeddingProviderName {
+  const name = process.env.EMBEDDING_PROVIDER;
+  return name === "openai" || name === "local" ? name : "gemini";
+}
+
+/**
+ * Check whether the configured embedding provider has credentials.
+ */
+export function isEmbeddingProviderConfigured(): boolean {
+  switch (getEmbeddingProviderName()) {
+    case "gemini":
+      return !!process.env.GEMINI_API_KEY;
+    case "openai":
+      return !!process.env.OPENAI_API_KEY;
+    case "local":
+      return true;
+  }
+}
+
+/**
+ * Create the configured embedding provider.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const model = process.env.EMBEDDING_MODEL || undefined;
+  switch (getEmbeddingProviderName()) {
+    case "gemini":
+      return new GeminiEmbeddingProvider(process.env.GEMINI_API_KEY || "", model);
+    case "openai":
+      return new OpenAIEmbeddingProvider(process.env.OPENAI_API_KEY || "", model);
+    case "local":
+      return new LocalEmbeddingProvider(model);
+  }
+}
+
+/**
+ * Pick the identifying fields of a provider (for recording with the index).
+ */
+export function toEmbeddingModelInfo(info: EmbeddingModelInfo): EmbeddingModelInfo {
+  return { provider: info.provider, model: info.model, dimensions: info.dimensions };
+}
+
+/**
+ * Check whether two embedding models produce comparable vectors.
+ */
+export function isSameEmbeddingModel(a: EmbeddingModelInfo, b: EmbeddingModelInfo): boolean {
+  return a.provider === b.provider && a.model === b.model && a.dimensions === b.dimensions;
+}
+
+/**
+ * Format an embedding model for logs and errors, e.g. "gemini/gemini-embedding-001 (3072d)".
+ */
+export function describeEmbeddingModel(info: EmbeddingModelInfo): string {
+  return `${info.provider}/${info.model} (${info.dimensions}d)`;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import {
+  fuseResults,
+  getFusionConfig,
+  parseFusionOverride,
+  reciprocalRankFusion,
+  weightedScoreFusion,
+} from "./fusion";
+import type { RetrievalResult } from "./retriever-upstash";
+import type { DocsChunk } from "./vector-store";
+
+function chunk(id: string): Omit<DocsChunk, "vector"> {
+  return { id, path: `/${id}`, title: id, content: `content ${id}`, url: `https://docs.test/${id}` };
+}
+
+const semantic: RetrievalResult[] = [
+  { chunk: chunk("a"), score: 0.42 },
+  { chunk: chunk("b"), score: 0.38 },
+  { chunk: chunk("c"), score: 0.31 },
+];
+const keyword = [
+  { id: "c", score: 9.5 },
+  { id: "d", score: 4.1 },
+];
+const chunks = new Map(["a", "b", "c", "d"].map((id) => [id, chunk(id)]));
+
+describe("reciprocalRankFusion", () => {
+  test("sums weighted reciprocal ranks across lists", () => {
+    const results = reciprocalRankFusion(semantic, keyword, chunks, 60);
+    expect(results.map((r) => r.id)).toEqual(["c", "a", "b", "d"]);
+    expect(results[0].fusedScore).toBeCloseTo(1 / 63 + 1 / 61);
+    expect(results[0]).toMatchObject({ semanticRank: 3, keywordRank: 1 });
+  });
+
+  test("keeps the raw retrieval scores", () => {
+    const c = reciprocalRankFusion(semantic, keyword, chunks).find((r) => r.id === "c")!;
+    expect(c.semanticScore).toBe(0.31);
+    expect(c.keywordScore).toBe(9.5);
+  });
+
+  test("favors the list with the higher weight", () => {
+    const results = reciprocalRankFusion(semantic, keyword, chunks, 60, 1, 3);
+    expect(results.map((r) => r.id).slice(0, 2)).toEqual(["c", "d"]);
+  });
+});
+
+describe("weightedScoreFusion", () => {
+  test("ranks by weighted min-max normalized scores", () => {
+    const results = weightedScoreFusion(semantic, keyword, chunks, 0.7, 0.3);
+    expect(results.map((r) => r.id)).toEqual(["a", "b", "c", "d"]);
+    expect(results[0].fusedScore).toBeCloseTo(0.7);
+    expect(results.find((r) => r.id === "c")!.fusedScore).toBeCloseTo(0.3);
+  });
+
+  test("keeps the raw retrieval scores, not the normalized ones", () => {
+    const results = weightedScoreFusion(semantic, keyword, chunks);
+    expect(results.find((r) => r.id === "a")!.semanticScore).toBe(0.42);
+    expect(results.find((r) => r.id === "c")).toMatchObject({
+      semanticScore: 0.31,
+      keywordScore: 9.5,
+    });
+    expect(results.find((r) => r.id === "d")!.keywordScore).toBe(4.1);
+  });
+});
+
+describe("fuseResults", () => {
+  test("boosts phrase matches already in the fused list", () => {
+    const config = getFusionConfig("conceptual", { phraseWeight: 1 });
+    const results = fuseResults(semantic, keyword, chunks, config, [{ id: "b", score: 2 }]);
+    expect(results[0].id).toBe("b");
+    expect(results[0].phraseRank).toBe(1);
+  });
+
+  test("keeps documents only the phrase list found", () => {
+    const withPhraseDoc = new Map([...chunks, ["e", chunk("e")]]);
+    for (const method of ["rrf", "weighted"] as const) {
+      const config = getFusionConfig("conceptual", { method, phraseWeight: 1 });
+      const results = fuseResults(semantic, keyword, withPhraseDoc, config, [{ id: "e", score: 2 }]);
+      expect(results.find((r) => r.id === "e")).toMatchObject({
+        semanticRank: null,
+        keywordRank: null,
+        phraseRank: 1,
+      });
+    }
+  });
+
+  test("skips the phrase list when its weight is zero", () => {
+    const withPhraseDoc = new Map([...chunks, ["e", chunk("e")]]);
+    const config = getFusionConfig("conceptual", { phraseWeight: 0 });
+    const results = fuseResults(semantic, keyword, withPhraseDoc, config, [{ id: "e", score: 2 }]);
+    expect(results.map((r) => r.id)).not.toContain("e");
+  });
+});
+
+describe("parseFusionOverride", () => {
+  test("accepts valid partial configs", () => {
+    expect(parseFusionOverride({ method: "rrf", k: 30 })).toEqual({ method: "rrf", k: 30 });
+  });
+
+  test("rejects invalid fields", () => {
+    expect(parseFusionOverride({ method: "max" })).toBeNull();
+    expect(parseFusionOverride({ k: 0 })).toBeNull();
+    expect(parseFusionOverride({ keywordWeight: -1 })).toBeNull();
+    expect(parseFusionOverride([])).toBeNull();
+  });
+});
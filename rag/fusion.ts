@@ -1,10 +1,15 @@
 /**
  * Score Fusion for docs-chat RAG pipeline.
- * Combines results from multiple retrieval strategies using Reciprocal Rank Fusion (RRF).
+ * Combines results from multiple retrieval strategies using Reciprocal Rank Fusion (RRF)
+ * or weighted score fusion, configured per query intent.
+ *
+ * Environment variables:
+ *   FUSION_CONFIG - JSON object of per-intent overrides, e.g. {"lookup":{"k":20}}
  */
 import type { RetrievalResult } from "./retriever-upstash";
 import type { BM25Result } from "./bm25-searcher";
-import type { DocsChunk } from "./store-upstash";
+import { withoutVector, type DocsChunk } from "./vector-store";
+import type { QueryIntent } from "./classifier";
 
 export interface FusedResult {
   id: string;
@@ -14,16 +19,154 @@ export interface FusedResult {
   keywordRank: number | null;
   keywordScore: number | null;
   fusedScore: number;
+  /** Rank in the phrase-match list, null when the document is not in it */
+  phraseRank?: number | null;
+}
+
+export type FusionMethod = "rrf" | "weighted";
+
+export interface FusionConfig {
+  method: FusionMethod;
+  /** RRF rank constant (ignored by weighted fusion) */
+  k: number;
+  semanticWeight: number;
+  keywordWeight: number;
+  /** Weight of the quoted-phrase match list (0 disables it) */
+  phraseWeight: number;
 }
 
 // RRF constant - controls how much to penalize lower ranks
 // Higher k = more equal weighting; lower k = more emphasis on top ranks
 const DEFAULT_RRF_K = 60;
 
+// Lookups lean on exact terms and top ranks; conceptual and comparison
+// questions lean on semantic similarity
+const INTENT_FUSION: Record<QueryIntent, FusionConfig> = {
+  lookup: { method: "rrf", k: 20, semanticWeight: 0.8, keywordWeight: 1.2, phraseWeight: 1 },
+  conceptual: { method: "rrf", k: DEFAULT_RRF_K, semanticWeight: 1, keywordWeight: 1, phraseWeight: 0.5 },
+  troubleshooting: { method: "rrf", k: 40, semanticWeight: 1, keywordWeight: 1, phraseWeight: 1 },
+  comparison: { method: "weighted", k: DEFAULT_RRF_K, semanticWeight: 0.7, keywordWeight: 0.3, phraseWeight: 0.3 },
+};
+
+const FUSION_METHODS: readonly FusionMethod[] = ["rrf", "weighted"];
+const MAX_RRF_K = 1000;
+const MAX_WEIGHT = 10;
+
+/**
+ * Validate a partial fusion config from env or a request.
+ * Returns null if any present field is invalid.
+ */
+export function parseFusionOverride(raw: unknown): Partial<FusionConfig> | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+
+  const input = raw as Record<string, unknown>;
+  const override: Partial<FusionConfig> = {};
+
+  if (input.method !== undefined) {
+    if (!FUSION_METHODS.includes(input.method as FusionMethod)) return null;
+    override.method = input.method as FusionMethod;
+  }
+  if (input.k !== undefined) {
+    if (typeof input.k !== "number" || !(input.k > 0 && input.k <= MAX_RRF_K)) return null;
+    override.k = input.k;
+  }
+  for (const field of ["semanticWeight", "keywordWeight", "phraseWeight"] as const) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !(value >= 0 && value <= MAX_WEIGHT)) return null;
+    override[field] = value;
+  }
+
+  return override;
+}
+
+/**
+ * Parse FUSION_CONFIG, ignoring malformed intents.
+ */
+function loadConfiguredFusion(): Partial<Record<QueryIntent, Partial<FusionConfig>>> {
+  const raw = process.env.FUSION_CONFIG;
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    const result: Partial<Record<QueryIntent, Partial<FusionConfig>>> = {};
+    for (const intent of Object.keys(INTENT_FUSION) as QueryIntent[]) {
+      if (parsed?.[intent] === undefined) continue;
+      const override = parseFusionOverride(parsed[intent]);
+      if (override) {
+        result[intent] = override;
+      } else {
+        console.error(`Invalid FUSION_CONFIG entry for ${intent}`);
+      }
+    }
+    return result;
+  } catch (error) {
+    console.error("Invalid FUSION_CONFIG:", error);
+    return {};
+  }
+}
+
+/**
+ * Get the fusion config for an intent: built-in defaults, then FUSION_CONFIG,
+ * then any per-request override.
+ */
+export function getFusionConfig(
+  intent: QueryIntent,
+  override?: Partial<FusionConfig>
+): FusionConfig {
+  return {
+    ...INTENT_FUSION[intent],
+    ...loadConfiguredFusion()[intent],
+    ...override,
+  };
+}
+
+/**
+ * Describe a fusion config for headers and logs, e.g. "rrf k=60 sw=1 kw=1 pw=0.5".
+ */
+export function describeFusion(config: FusionConfig): string {
+  const k = config.method === "rrf" ? ` k=${config.k}` : "";
+  return `${config.method}${k} sw=${config.semanticWeight} kw=${config.keywordWeight} pw=${config.phraseWeight}`;
+}
+
+/**
+ * Fuse semantic, keyword and phrase-match lists with the given config.
+ * Phrase matches are a third list, so a document only they found is kept.
+ */
+export function fuseResults(
+  semanticResults: RetrievalResult[],
+  keywordResults: BM25Result[],
+  chunks: Map<string, Omit<DocsChunk, "vector">>,
+  config: FusionConfig,
+  phraseResults: BM25Result[] = []
+): FusedResult[] {
+  const phrases = config.phraseWeight > 0 ? phraseResults : [];
+  return config.method === "weighted"
+    ? weightedScoreFusion(
+        semanticResults,
+        keywordResults,
+        chunks,
+        config.semanticWeight,
+        config.keywordWeight,
+        phrases,
+        config.phraseWeight
+      )
+    : reciprocalRankFusion(
+        semanticResults,
+        keywordResults,
+        chunks,
+        config.k,
+        config.semanticWeight,
+        config.keywordWeight,
+        phrases,
+        config.phraseWeight
+      );
+}
+
 /**
  * Reciprocal Rank Fusion (RRF) to combine multiple result lists.
  * 
- * Formula: RRF(d) = Σ 1/(k + rank(d)) for each list containing d
+ * Formula: RRF(d) = Σ w/(k + rank(d)) for each list containing d (w = list weight, default 1)
  * 
  * This method is robust because:
  * - Doesn't require score normalization
@@ -34,20 +177,25 @@ export function reciprocalRankFusion(
   semanticResults: RetrievalResult[],
   keywordResults: BM25Result[],
   chunks: Map<string, Omit<DocsChunk, "vector">>,
-  k: number = DEFAULT_RRF_K
+  k: number = DEFAULT_RRF_K,
+  semanticWeight: number = 1,
+  keywordWeight: number = 1,
+  phraseResults: BM25Result[] = [],
+  phraseWeight: number = 1
 ): FusedResult[] {
   const fusedScores = new Map<string, {
     semanticRank: number | null;
     semanticScore: number | null;
     keywordRank: number | null;
     keywordScore: number | null;
+    phraseRank: number | null;
     rrfScore: number;
   }>();
 
   // Process semantic results
   semanticResults.forEach((result, index) => {
     const rank = index + 1;
-    const rrfContribution = 1 / (k + rank);
+    const rrfContribution = semanticWeight / (k + rank);
     
     const existing = fusedScores.get(result.chunk.id);
     if (existing) {
@@ -60,6 +208,7 @@ export function reciprocalRankFusion(
         semanticScore: result.score,
         keywordRank: null,
         keywordScore: null,
+        phraseRank: null,
         rrfScore: rrfContribution,
       });
     }
@@ -68,7 +217,7 @@ export function reciprocalRankFusion(
   // Process keyword results
   keywordResults.forEach((result, index) => {
     const rank = index + 1;
-    const rrfContribution = 1 / (k + rank);
+    const rrfContribution = keywordWeight / (k + rank);
     
     const existing = fusedScores.get(result.id);
     if (existing) {
@@ -81,6 +230,28 @@ export function reciprocalRankFusion(
         semanticScore: null,
         keywordRank: rank,
         keywordScore: result.score,
+        phraseRank: null,
+        rrfScore: rrfContribution,
+      });
+    }
+  });
+
+  // Process phrase-match results
+  phraseResults.forEach((result, index) => {
+    const rank = index + 1;
+    const rrfContribution = phraseWeight / (k + rank);
+
+    const existing = fusedScores.get(result.id);
+    if (existing) {
+      existing.phraseRank = rank;
+      existing.rrfScore += rrfContribution;
+    } else {
+      fusedScores.set(result.id, {
+        semanticRank: null,
+        semanticScore: null,
+        keywordRank: null,
+        keywordScore: null,
+        phraseRank: rank,
         rrfScore: rrfContribution,
       });
     }
@@ -105,17 +276,12 @@ export function reciprocalRankFusion(
 
     results.push({
       id,
-      chunk: {
-        id: chunk.id,
-        path: chunk.path,
-        title: chunk.title,
-        content: chunk.content,
-        url: chunk.url,
-      },
+      chunk: withoutVector(chunk),
       semanticRank: scores.semanticRank,
       semanticScore: scores.semanticScore,
       keywordRank: scores.keywordRank,
       keywordScore: scores.keywordScore,
+      phraseRank: scores.phraseRank,
       fusedScore: scores.rrfScore,
     });
   }
@@ -135,29 +301,35 @@ export function weightedScoreFusion(
   keywordResults: BM25Result[],
   chunks: Map<string, Omit<DocsChunk, "vector">>,
   semanticWeight: number = 0.7,
-  keywordWeight: number = 0.3
+  keywordWeight: number = 0.3,
+  phraseResults: BM25Result[] = [],
+  phraseWeight: number = 0.3
 ): FusedResult[] {
   // Normalize scores to 0-1 range
   const normalizedSemantic = normalizeScores(
     semanticResults.map(r => ({ id: r.chunk.id, score: r.score }))
   );
   const normalizedKeyword = normalizeScores(keywordResults);
+  const normalizedPhrase = normalizeScores(phraseResults);
 
   const fusedScores = new Map<string, {
     semanticRank: number | null;
     semanticScore: number | null;
     keywordRank: number | null;
     keywordScore: number | null;
+    phraseRank: number | null;
     weightedScore: number;
   }>();
 
-  // Process semantic results
+  // Normalized scores only feed the weighted sum; the raw cosine and
+  // BM25 scores are kept for confidence calibration, as with RRF
   normalizedSemantic.forEach(({ id, score }, index) => {
     fusedScores.set(id, {
       semanticRank: index + 1,
-      semanticScore: score,
+      semanticScore: semanticResults[index].score,
       keywordRank: null,
       keywordScore: null,
+      phraseRank: null,
       weightedScore: score * semanticWeight,
     });
   });
@@ -167,19 +339,38 @@ export function weightedScoreFusion(
     const existing = fusedScores.get(id);
     if (existing) {
       existing.keywordRank = index + 1;
-      existing.keywordScore = score;
+      existing.keywordScore = keywordResults[index].score;
       existing.weightedScore += score * keywordWeight;
     } else {
       fusedScores.set(id, {
         semanticRank: null,
         semanticScore: null,
         keywordRank: index + 1,
-        keywordScore: score,
+        keywordScore: keywordResults[index].score,
+        phraseRank: null,
         weightedScore: score * keywordWeight,
       });
     }
   });
 
+  // Process phrase-match results
+  normalizedPhrase.forEach(({ id, score }, index) => {
+    const existing = fusedScores.get(id);
+    if (existing) {
+      existing.phraseRank = index + 1;
+      existing.weightedScore += score * phraseWeight;
+    } else {
+      fusedScores.set(id, {
+        semanticRank: null,
+        semanticScore: null,
+        keywordRank: null,
+        keywordScore: null,
+        phraseRank: index + 1,
+        weightedScore: score * phraseWeight,
+      });
+    }
+  });
+
   // Build final results
   const results: FusedResult[] = [];
   
@@ -192,17 +383,12 @@ export function weightedScoreFusion(
 
     results.push({
       id,
-      chunk: {
-        id: chunk.id,
-        path: chunk.path,
-        title: chunk.title,
-        content: chunk.content,
-        url: chunk.url,
-      },
+      chunk: withoutVector(chunk),
       semanticRank: scores.semanticRank,
       semanticScore: scores.semanticScore,
       keywordRank: scores.keywordRank,
       keywordScore: scores.keywordScore,
+      phraseRank: scores.phraseRank,
       fusedScore: scores.weightedScore,
     });
   }
@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import type { EmbeddingModelInfo } from "./embeddings";
+import {
+  buildManifest,
+  canPatchIndex,
+  hasIndexChanges,
+  planIndexChanges,
+} from "./index-manifest";
+import type { DocsChunk } from "./vector-store";
+
+const embedding: EmbeddingModelInfo = { provider: "openai", model: "text-embedding-3-small", dimensions: 1536 };
+
+function chunk(id: string, url: string, title = url): DocsChunk {
+  return { id, url, title, path: new URL(url).pathname, content: `content ${id}`, vector: [] };
+}
+
+const previousChunks = [
+  chunk("a1", "https://docs.test/a", "A"),
+  chunk("a2", "https://docs.test/a", "A"),
+  chunk("a3", "https://docs.test/a", "A"),
+  chunk("b1", "https://docs.test/b", "B"),
+  chunk("c1", "https://docs.test/c", "C"),
+];
+const previous = buildManifest(previousChunks, embedding);
+
+describe("buildManifest", () => {
+  test("records chunk ids per page in order", () => {
+    expect(previous.pages["https://docs.test/a"]).toEqual({ title: "A", chunkIds: ["a1", "a2", "a3"] });
+    expect(Object.keys(previous.pages)).toHaveLength(3);
+  });
+});
+
+describe("canPatchIndex", () => {
+  test("needs a manifest from the same embedding model", () => {
+    expect(canPatchIndex(previous, embedding)).toBe(true);
+    expect(canPatchIndex(null, embedding)).toBe(false);
+    expect(canPatchIndex(previous, { ...embedding, dimensions: 512 })).toBe(false);
+  });
+});
+
+describe("planIndexChanges", () => {
+  test("plans nothing for an unchanged index", () => {
+    const changes = planIndexChanges(previousChunks, buildManifest(previousChunks, embedding), previous);
+    expect(hasIndexChanges(changes)).toBe(false);
+  });
+
+  test("upserts new chunks, deletes removed ones and updates moved pages", () => {
+    // Page a: a2 replaced by aX; page b removed; page c unchanged; page d added
+    const chunks = [
+      chunk("a1", "https://docs.test/a", "A"),
+      chunk("aX", "https://docs.test/a", "A"),
+      chunk("a3", "https://docs.test/a", "A"),
+      chunk("c1", "https://docs.test/c", "C"),
+      chunk("d1", "https://docs.test/d", "D"),
+    ];
+    const changes = planIndexChanges(chunks, buildManifest(chunks, embedding), previous);
+
+    expect(changes.upserts.map((c) => c.id)).toEqual(["aX", "d1"]);
+    expect(changes.updates.map((c) => c.id)).toEqual(["a1", "a3"]);
+    expect(changes.deletes.sort()).toEqual(["a2", "b1"]);
+    expect(changes.updates.every((c) => !("vector" in c))).toBe(true);
+  });
+
+  test("updates kept chunks when the page title changes", () => {
+    const chunks = previousChunks.map((c) =>
+      c.url === "https://docs.test/c" ? { ...c, title: "C renamed" } : c
+    );
+    const changes = planIndexChanges(chunks, buildManifest(chunks, embedding), previous);
+    expect(changes.updates.map((c) => c.id)).toEqual(["c1"]);
+    expect(changes.upserts).toEqual([]);
+    expect(changes.deletes).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Index Manifest for docs-chat RAG pipeline.
+ * Records the chunk ids each page was split into, so a re-index can embed
+ * only new chunks, delete removed ones and rewrite metadata that moved.
+ */
+import { isSameEmbeddingModel, type EmbeddingModelInfo } from "./embeddings";
+import {
+  withoutVector,
+  type DocsChunk,
+  type IndexChanges,
+  type IndexManifest,
+  type ManifestPage,
+} from "./vector-store";
+
+/**
+ * Build the manifest for a set of chunks (in page order).
+ */
+export function buildManifest(
+  chunks: DocsChunk[],
+  embedding: EmbeddingModelInfo
+): IndexManifest {
+  const pages: Record<string, ManifestPage> = {};
+  for (const chunk of chunks) {
+    const page = pages[chunk.url];
+    if (page) {
+      page.chunkIds.push(chunk.id);
+    } else {
+      // The first chunk carries the page title without a "(Part n)" suffix
+      pages[chunk.url] = { title: chunk.title, chunkIds: [chunk.id] };
+    }
+  }
+  return { embedding, pages, updatedAt: Date.now() };
+}
+
+/**
+ * Check whether an index built from `previous` can be patched, rather than
+ * rebuilt, to serve queries embedded with `embedding`.
+ */
+export function canPatchIndex(
+  previous: IndexManifest | null,
+  embedding: EmbeddingModelInfo
+): previous is IndexManifest {
+  return !!previous && isSameEmbeddingModel(previous.embedding, embedding);
+}
+
+/**
+ * Plan the changes that turn the `previous` index into `manifest`.
+ * Upserts are returned without vectors; the caller embeds them.
+ * Kept chunks get a metadata update when their page's title or chunk
+ * list changed, since titles, positions and neighbor ids derive from it.
+ */
+export function planIndexChanges(
+  chunks: DocsChunk[],
+  manifest: IndexManifest,
+  previous: IndexManifest
+): IndexChanges {
+  const previousIds = new Set(Object.values(previous.pages).flatMap((page) => page.chunkIds));
+  const currentIds = new Set(chunks.map((chunk) => chunk.id));
+  const changedPages = new Set(
+    Object.keys(manifest.pages).filter(
+      (url) => !isSamePage(previous.pages[url], manifest.pages[url])
+    )
+  );
+
+  return {
+    upserts: chunks.filter((chunk) => !previousIds.has(chunk.id)),
+    updates: chunks
+      .filter((chunk) => previousIds.has(chunk.id) && changedPages.has(chunk.url))
+      .map(withoutVector),
+    deletes: [...previousIds].filter((id) => !currentIds.has(id)),
+  };
+}
+
+/**
+ * Check whether a change set is empty.
+ */
+export function hasIndexChanges(changes: IndexChanges): boolean {
+  return changes.upserts.length + changes.updates.length + changes.deletes.length > 0;
+}
+
+function isSamePage(a: ManifestPage | undefined, b: ManifestPage): boolean {
+  return (
+    !!a &&
+    a.title === b.title &&
+    a.chunkIds.length === b.chunkIds.length &&
+    a.chunkIds.every((id, i) => id === b.chunkIds[i])
+  );
+}
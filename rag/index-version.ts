@@ -0,0 +1,42 @@
+/**
+ * Index Version for docs-chat RAG pipeline.
+ * A counter in Redis that indexDocs bumps after every successful run.
+ * Process-level caches key on it so they can be invalidated with one cheap read.
+ */
+import { Redis } from "@upstash/redis";
+
+const INDEX_VERSION_KEY = "index:version";
+
+function getRedis(): Redis | null {
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+  if (!url || !token) {
+    return null;
+  }
+
+  return new Redis({ url, token });
+}
+
+/**
+ * Get the current index version.
+ * Returns "0" before the first versioned index run, null without Redis.
+ */
+export async function getIndexVersion(): Promise<string | null> {
+  const redis = getRedis();
+  if (!redis) return null;
+
+  const version = await redis.get<string | number>(INDEX_VERSION_KEY);
+  return version === null ? "0" : String(version);
+}
+
+/**
+ * Bump the index version, invalidating caches on all instances.
+ */
+export async function bumpIndexVersion(): Promise<string | null> {
+  const redis = getRedis();
+  if (!redis) return null;
+
+  const version = await redis.incr(INDEX_VERSION_KEY);
+  return String(version);
+}
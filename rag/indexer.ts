@@ -3,10 +3,47 @@
  * Fetches documentation from docs.openclaw.ai/llms-full.txt,
  * chunks it, generates embeddings, and stores in Upstash Vector.
  * Also builds BM25 inverted index for keyword search.
+ *
+ * Pages are split along their markdown sections (see chunker.ts). Chunk
+ * ids hash the page url, heading breadcrumb and chunk content. Re-indexing
+ * compares them with the stored manifest and embeds only new chunks; the
+ * index is rebuilt from scratch when there is no manifest or the embedding
+ * model changed.
  */
-import { Embeddings } from "./embeddings";
-import { DocsStore, DocsChunk } from "./store-upstash";
-import { buildTermIndex, storeTermIndex } from "./bm25-searcher";
+import {
+  describeEmbeddingModel,
+  getEmbeddingProvider,
+  toEmbeddingModelInfo,
+} from "./embeddings";
+import type { DocsChunk, VectorStore } from "./vector-store";
+import { createVectorStore, getVectorStoreMode } from "./store-factory";
+import {
+  buildManifest,
+  canPatchIndex,
+  hasIndexChanges,
+  planIndexChanges,
+} from "./index-manifest";
+import {
+  buildTermIndex,
+  deleteTermIndex,
+  getLegacyTermIndexVersion,
+  storeTermIndex,
+} from "./bm25-searcher";
+import {
+  activateIndex,
+  getInactiveNamespace,
+  getIndexPointer,
+  isIndexPointerEnabled,
+  type IndexSlot,
+} from "./active-index";
+import { bumpIndexVersion } from "./index-version";
+import {
+  chunkMarkdown,
+  getChunkingConfig,
+  type ChunkingConfig,
+  type ChunkSource,
+  type MarkdownChunk,
+} from "./chunker";
 import { readFileSync, readdirSync } from "fs";
 import { join } from "path";
 
@@ -50,17 +87,32 @@ const DOCS_BASE_URL = "https://docs.openclaw.ai";
 const LLMS_FULL_URL = `${DOCS_BASE_URL}/llms-full.txt`;
 const SUPPLEMENTARY_DIR = join(process.cwd(), "docs");
 
+// Stored embeddings per fetch when copying them from the active index
+const VECTOR_FETCH_BATCH_SIZE = 100;
+
 interface DocPage {
   url: string;
   path: string;
   title: string;
   content: string;
+  source: ChunkSource;
+}
+
+interface IndexOptions {
+  /** Rebuild the whole index instead of patching it from the manifest */
+  full?: boolean;
 }
 
 interface IndexResult {
   success: boolean;
+  /** "incremental" when the stored index was patched */
+  mode: "full" | "incremental";
   pagesProcessed: number;
   chunksCreated: number;
+  /** Chunks sent to the embedding provider */
+  chunksEmbedded: number;
+  /** Chunks removed from the stored index (incremental mode) */
+  chunksDeleted: number;
   uniqueTerms: number;
   errors: string[];
   duration: number;
@@ -122,7 +174,7 @@ async function fetchDocsFromLlmsTxt(): Promise<DocPage[]> {
       continue;
     }
 
-    pages.push({ url, path, title, content: pageContent });
+    pages.push({ url, path, title, content: pageContent, source: "docs" });
   }
 
   console.log(`Parsed ${pages.length} documentation pages from llms-full.txt`);
@@ -169,7 +221,7 @@ function loadSupplementaryDocs(): DocPage[] {
 
       if (pageContent.length < 50) continue;
 
-      pages.push({ url, path, title, content: pageContent });
+      pages.push({ url, path, title, content: pageContent, source: "supplementary" });
     }
   }
 
@@ -181,119 +233,146 @@ function loadSupplementaryDocs(): DocPage[] {
 }
 
 /**
- * Cleans up markdown content for embedding.
+ * Cleans up markdown content for chunking.
+ * Indentation and fence languages are kept; the chunker relies on them.
  */
 function cleanMarkdown(markdown: string): string {
   return markdown
-    // Remove code fence language identifiers
-    .replace(/```\w+\s*/g, "```\n")
+    .replace(/\r\n?/g, "\n")
+    // Remove trailing whitespace
+    .replace(/[ \t]+$/gm, "")
     // Remove excessive newlines
     .replace(/\n{3,}/g, "\n\n")
-    // Normalize whitespace
-    .replace(/[ \t]+/g, " ")
     .trim();
 }
 
 /**
- * Splits content into chunks suitable for embedding.
- * Uses a sliding window approach with overlap for context.
+ * Splits a page into chunks along its markdown sections.
  */
 async function chunkContent(
   page: DocPage,
-  chunkSize: number = 1000,
-  overlap: number = 200
+  config: ChunkingConfig,
+  usedIds: Set<string>
 ): Promise<DocsChunk[]> {
   const chunks: DocsChunk[] = [];
-  const content = page.content;
 
-  if (content.length <= chunkSize) {
-    // Single chunk for short content
+  for (const section of chunkMarkdown(page.content, config)) {
     chunks.push({
-      id: await generateChunkId(page.url, 0),
+      id: await generateChunkId(page.url, section, usedIds),
       path: page.path,
-      title: page.title,
-      content: content,
+      title: `${page.title}${chunks.length > 0 ? ` (Part ${chunks.length + 1})` : ""}`,
+      content: section.content,
       url: page.url,
+      headings: section.headings,
+      section: section.headings[section.headings.length - 1],
+      sectionUrl: section.anchor ? `${page.url}#${section.anchor}` : page.url,
       vector: [], // Will be filled by embeddings
     });
-    return chunks;
   }
 
-  // Split into overlapping chunks
-  let start = 0;
-  let chunkIndex = 0;
-
-  while (start < content.length) {
-    let end = Math.min(start + chunkSize, content.length);
-
-    // Try to break at sentence or paragraph boundary
-    if (end < content.length) {
-      const breakPoints = [". ", ".\n", "\n\n", "\n", " "];
-      for (const bp of breakPoints) {
-        const lastBreak = content.lastIndexOf(bp, end);
-        if (lastBreak > start + chunkSize / 2) {
-          end = lastBreak + bp.length;
-          break;
-        }
-      }
-    }
+  return linkPageChunks(chunks);
+}
 
-    const chunkText = content.slice(start, end).trim();
-
-    if (chunkText.length > 50) {
-      chunks.push({
-        id: await generateChunkId(page.url, chunkIndex),
-        path: page.path,
-        title: `${page.title}${chunkIndex > 0 ? ` (Part ${chunkIndex + 1})` : ""}`,
-        content: chunkText,
-        url: page.url,
-        vector: [],
-      });
-      chunkIndex++;
-    }
+/**
+ * Text embedded for a chunk: its heading breadcrumb, then its content.
+ */
+function embeddingText(chunk: DocsChunk): string {
+  const title = chunk.title.replace(/ \(Part \d+\)$/, "");
+  const breadcrumb = [title, ...(chunk.headings ?? [])].join(" > ");
+  return `${breadcrumb}\n\n${chunk.content}`;
+}
 
-    start = end - overlap;
-    if (start >= content.length - overlap) break;
+/**
+ * Records each chunk's position in its page and links adjacent chunks,
+ * so retrieval can pull in neighboring context.
+ */
+function linkPageChunks(chunks: DocsChunk[]): DocsChunk[] {
+  chunks.forEach((chunk, i) => {
+    chunk.ordinal = i;
+    chunk.pageChunkCount = chunks.length;
+    chunk.prevId = chunks[i - 1]?.id;
+    chunk.nextId = chunks[i + 1]?.id;
+  });
+  return chunks;
+}
+
+/**
+ * Generates a chunk ID from the page URL, heading breadcrumb and chunk
+ * content (everything that is embedded), so unchanged chunks keep their ID
+ * (and embedding) when the page around them changes.
+ * Repeated content on a page gets an occurrence suffix.
+ */
+async function generateChunkId(
+  url: string,
+  chunk: MarkdownChunk,
+  usedIds: Set<string>
+): Promise<string> {
+  const base = [url, ...chunk.headings, chunk.content].join("\n");
+  let id = (await sha256Hex(base)).slice(0, 16);
+  for (let n = 1; usedIds.has(id); n++) {
+    id = (await sha256Hex(`${base}\n${n}`)).slice(0, 16);
   }
+  usedIds.add(id);
+  return id;
+}
 
-  return chunks;
+/**
+ * Describe an index built before the active index pointer existed,
+ * so the first blue/green run can keep it for rollback.
+ */
+async function legacyIndexSlot(store: VectorStore): Promise<IndexSlot | null> {
+  const chunkCount = await store.count();
+  const bm25Version = await getLegacyTermIndexVersion();
+  if (chunkCount === 0 && !bm25Version) return null;
+  return { namespace: "", bm25Version, chunkCount, activatedAt: 0 };
 }
 
 /**
- * Generates a deterministic chunk ID based on URL and position.
+ * Delete the storage of an index slot that is no longer kept.
+ * A namespace about to be rewritten is left to the index run.
  */
-async function generateChunkId(url: string, index: number): Promise<string> {
-  const hash = await sha256Hex(`${url}:${index}`);
-  return hash.slice(0, 16);
+async function dropIndexSlot(slot: IndexSlot, target: string): Promise<void> {
+  if (slot.bm25Version) {
+    await deleteTermIndex(slot.bm25Version);
+  }
+  if (slot.namespace !== target) {
+    await createVectorStore(slot.namespace).clear();
+  }
+}
+
+/**
+ * Fetch stored embeddings in batches small enough for one response.
+ */
+async function fetchStoredVectors(
+  store: VectorStore,
+  ids: string[]
+): Promise<Map<string, number[]>> {
+  const vectors = new Map<string, number[]>();
+  for (let i = 0; i < ids.length; i += VECTOR_FETCH_BATCH_SIZE) {
+    const batch = await store.fetchVectors(ids.slice(i, i + VECTOR_FETCH_BATCH_SIZE));
+    for (const [id, vector] of batch) {
+      vectors.set(id, vector);
+    }
+  }
+  return vectors;
 }
 
 /**
  * Main indexing function.
- * Fetches all docs, chunks them, generates embeddings, and stores in vector DB.
+ * Fetches all docs, chunks them, and embeds and stores the chunks that
+ * changed since the last run (or all of them for a full rebuild).
  */
-export async function indexDocs(): Promise<IndexResult> {
+export async function indexDocs(options: IndexOptions = {}): Promise<IndexResult> {
   const startTime = Date.now();
   const errors: string[] = [];
+  let mode: IndexResult["mode"] = "full";
 
   console.log("Starting documentation indexing...");
 
-  // Validate environment
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    return {
-      success: false,
-      pagesProcessed: 0,
-      chunksCreated: 0,
-      uniqueTerms: 0,
-      errors: ["GEMINI_API_KEY is required"],
-      duration: Date.now() - startTime,
-    };
-  }
-
   try {
-    // Initialize components
-    const embeddings = new Embeddings(apiKey);
-    const store = new DocsStore();
+    // Initialize components (throws when the embedding provider lacks credentials)
+    const embeddings = getEmbeddingProvider();
+    const activeStore = createVectorStore();
 
     // Fetch documentation from llms-full.txt
     const pages = await fetchDocsFromLlmsTxt();
@@ -301,8 +380,11 @@ export async function indexDocs(): Promise<IndexResult> {
     if (pages.length === 0) {
       return {
         success: false,
+        mode: "full",
         pagesProcessed: 0,
         chunksCreated: 0,
+        chunksEmbedded: 0,
+        chunksDeleted: 0,
         uniqueTerms: 0,
         errors: ["No documentation pages could be fetched from llms-full.txt"],
         duration: Date.now() - startTime,
@@ -319,28 +401,21 @@ export async function indexDocs(): Promise<IndexResult> {
     // Chunk all pages
     console.log("Chunking content...");
     const allChunks: DocsChunk[] = [];
+    const usedIds = new Set<string>();
+    const chunking: Record<ChunkSource, ChunkingConfig> = {
+      docs: getChunkingConfig("docs"),
+      supplementary: getChunkingConfig("supplementary"),
+    };
     for (const page of pages) {
-      const chunks = await chunkContent(page);
+      const chunks = await chunkContent(page, chunking[page.source], usedIds);
       allChunks.push(...chunks);
     }
     console.log(`Created ${allChunks.length} chunks from ${pages.length} pages`);
 
-    // Generate embeddings in batches
-    console.log("Generating embeddings...");
-    const texts = allChunks.map((chunk) => chunk.content);
-    const vectors = await embeddings.embedBatch(texts);
-
-    // Attach vectors to chunks
-    for (let i = 0; i < allChunks.length; i++) {
-      allChunks[i].vector = vectors[i];
-    }
-
-    // Store in vector database
-    console.log("Storing in vector database...");
-    await store.replaceAll(allChunks);
+    const embedding = toEmbeddingModelInfo(embeddings);
+    const manifest = buildManifest(allChunks, embedding);
 
-    // Build and store BM25 index for keyword search
-    console.log("Building BM25 index...");
+    // BM25 is rebuilt from all chunks; it needs no embedding calls
     const termIndex = buildTermIndex(
       allChunks.map((chunk) => ({
         id: chunk.id,
@@ -348,18 +423,131 @@ export async function indexDocs(): Promise<IndexResult> {
         title: chunk.title,
       }))
     );
-    await storeTermIndex(termIndex);
+
+    // Nothing to do when the index serving queries already matches
+    const activeManifest = await activeStore.getManifest();
+    if (
+      !options.full &&
+      canPatchIndex(activeManifest, embedding) &&
+      !hasIndexChanges(planIndexChanges(allChunks, manifest, activeManifest))
+    ) {
+      const duration = Date.now() - startTime;
+      console.log(`Index is up to date (${duration}ms)`);
+      return {
+        success: true,
+        mode: "incremental",
+        pagesProcessed: pages.length,
+        chunksCreated: allChunks.length,
+        chunksEmbedded: 0,
+        chunksDeleted: 0,
+        uniqueTerms: termIndex.terms.size,
+        errors,
+        duration,
+      };
+    }
+
+    // Write to the namespace not serving queries, then flip the pointer.
+    // Its previous contents are the rollback target, given up once the new
+    // index is activated.
+    const pointerEnabled = isIndexPointerEnabled();
+    const swap = pointerEnabled && getVectorStoreMode() === "upstash";
+    const pointer = pointerEnabled ? await getIndexPointer() : null;
+    const current = pointerEnabled
+      ? pointer?.active ?? (await legacyIndexSlot(activeStore))
+      : null;
+    const namespace = swap ? getInactiveNamespace(current) : current?.namespace ?? "";
+
+    // Patch the target when it was built by the same embedding model
+    const store = swap ? createVectorStore(namespace) : activeStore;
+    const previous = options.full ? null : swap ? await store.getManifest() : activeManifest;
+    const incremental = canPatchIndex(previous, embedding);
+    const changes = incremental
+      ? planIndexChanges(allChunks, manifest, previous)
+      : { upserts: allChunks, updates: [], deletes: [] };
+    mode = incremental ? "incremental" : "full";
+    console.log(
+      `Index changes${namespace ? ` for namespace "${namespace}"` : ""} (${mode}): ` +
+        `${changes.upserts.length} new, ${changes.updates.length} moved, ${changes.deletes.length} removed chunks`
+    );
+
+    // Reuse embeddings the active index already has
+    const reused =
+      swap && canPatchIndex(activeManifest, embedding)
+        ? await fetchStoredVectors(activeStore, changes.upserts.map((chunk) => chunk.id))
+        : new Map<string, number[]>();
+    const toEmbed = changes.upserts.filter((chunk) => !reused.has(chunk.id));
+
+    // Generate embeddings in batches
     console.log(
-      `BM25 index built with ${termIndex.totalDocs} documents and ${termIndex.terms.size} unique terms`
+      `Generating ${toEmbed.length} embeddings with ${describeEmbeddingModel(embeddings)} (${reused.size} reused)...`
     );
+    const vectors = await embeddings.embedBatch(toEmbed.map(embeddingText));
+
+    // Attach vectors to chunks
+    for (let i = 0; i < toEmbed.length; i++) {
+      toEmbed[i].vector = vectors[i];
+    }
+    for (const chunk of changes.upserts) {
+      chunk.vector = reused.get(chunk.id) ?? chunk.vector;
+    }
+
+    // Store the BM25 index for keyword search under a new version
+    console.log("Storing BM25 index...");
+    const bm25Version = await storeTermIndex(termIndex);
+
+    // Store in vector database
+    console.log("Storing in vector database...");
+    if (incremental) {
+      await store.applyChanges(changes, manifest);
+    } else {
+      await store.replaceAll(allChunks, manifest);
+    }
+
+    // Refuse to activate an index that does not hold every chunk
+    const stored = await store.count();
+    if (stored !== allChunks.length) {
+      // The manifest was saved with the vectors; without it the next run
+      // rebuilds this namespace in full instead of trusting it
+      await store.clearManifest();
+      if (bm25Version) {
+        await deleteTermIndex(bm25Version);
+      }
+      throw new Error(
+        `Index validation failed: expected ${allChunks.length} chunks, found ${stored}`
+      );
+    }
+
+    if (pointerEnabled) {
+      await activateIndex(
+        { namespace, bm25Version, chunkCount: stored, activatedAt: Date.now() },
+        swap ? current : null
+      );
+      console.log(`Activated index${namespace ? ` namespace "${namespace}"` : ""}`);
+      if (swap && pointer?.previous) {
+        await dropIndexSlot(pointer.previous, namespace);
+      }
+      // Written in place: the replaced BM25 version cannot be rolled back to
+      if (!swap && current) {
+        await dropIndexSlot(current, namespace);
+      }
+    }
+
+    // Invalidate process-level caches on all instances
+    const version = await bumpIndexVersion();
+    if (version) {
+      console.log(`Index version bumped to ${version}`);
+    }
 
     const duration = Date.now() - startTime;
     console.log(`Indexing complete in ${duration}ms`);
 
     return {
       success: true,
+      mode,
       pagesProcessed: pages.length,
       chunksCreated: allChunks.length,
+      chunksEmbedded: toEmbed.length,
+      chunksDeleted: changes.deletes.length,
       uniqueTerms: termIndex.terms.size,
       errors,
       duration,
@@ -371,8 +559,11 @@ export async function indexDocs(): Promise<IndexResult> {
 
     return {
       success: false,
+      mode,
       pagesProcessed: 0,
       chunksCreated: 0,
+      chunksEmbedded: 0,
+      chunksDeleted: 0,
       uniqueTerms: 0,
       errors,
       duration: Date.now() - startTime,
@@ -4,6 +4,11 @@
  */
 import { Redis } from "@upstash/redis";
 import type { QueryIntent, RetrievalStrategy } from "./classifier";
+import type { BM25CacheStatus } from "./bm25-searcher";
+import type { EmbeddingCacheOutcome } from "./embedding-cache";
+import type { AnswerCacheStatus } from "./answer-cache";
+import type { RerankStatus } from "./reranker";
+import type { RawScore } from "./confidence";
 
 // Key prefixes for Redis storage
 const KEYS = {
@@ -22,14 +27,31 @@ export interface QueryLog {
   id: string;
   timestamp: number;
   query: string;
+  retrievalQuery?: string;
+  conversationId?: string;
   intent: QueryIntent;
   strategy: RetrievalStrategy;
   retrievalMs: number;
   rerankMs: number;
   totalMs: number;
+  /** BM25 cache outcome and process-level hit/miss counts */
+  bm25Cache?: BM25CacheStatus;
+  /** Query embedding cache outcome, when semantic search ran */
+  embeddingCache?: EmbeddingCacheOutcome;
+  /** Answer cache outcome: "hit" when a stored answer was replayed */
+  answerCache?: AnswerCacheStatus;
+  /** Rerank stage outcome: "fallback" when the reranker failed and fused order was kept */
+  rerank?: RerankStatus;
+  /** Fusion used for hybrid results, e.g. "rrf k=60 sw=1 kw=1 pw=0.5" */
+  fusion?: string;
+  /** Estimated tokens of documentation context sent to the model */
+  contextTokens?: number;
   resultCount: number;
   topChunkIds: string[];
+  /** Calibrated confidence of the top results */
   topScores: number[];
+  /** Uncalibrated score behind the best result, for refitting calibration */
+  rawScore?: RawScore;
   model: string;
   success: boolean;
   errorMessage?: string;
@@ -57,6 +79,19 @@ export interface QueryStats {
     notHelpful: number;
     partial: number;
   };
+  embeddingCache: {
+    hits: number;
+    misses: number;
+    /** Hits over lookups, 0 without lookups */
+    hitRate: number;
+  };
+  /** Queries per rerank outcome; "fallback" counts degraded-mode queries */
+  rerank: Record<RerankStatus, number>;
+}
+
+export interface RatedQuery {
+  log: QueryLog;
+  feedback: FeedbackEntry;
 }
 
 export interface CoverageGap {
@@ -140,8 +175,8 @@ export class ObservabilityService {
     if (!this.redis) return null;
 
     try {
-      const data = await this.redis.get<string>(`${KEYS.QUERY}${queryId}`);
-      return data ? JSON.parse(data) : null;
+      const data = await this.redis.get<string | QueryLog>(`${KEYS.QUERY}${queryId}`);
+      return data ? parseEntry<QueryLog>(data) : null;
     } catch {
       return null;
     }
@@ -165,6 +200,8 @@ export class ObservabilityService {
         strategyDistribution: { semantic: 0, keyword: 0, hybrid: 0 },
         intentDistribution: { lookup: 0, conceptual: 0, troubleshooting: 0, comparison: 0 },
         feedbackSummary: { helpful: 0, notHelpful: 0, partial: 0 },
+        embeddingCache: { hits: 0, misses: 0, hitRate: 0 },
+        rerank: { ok: 0, fallback: 0, disabled: 0 },
       };
 
       const latencies: number[] = [];
@@ -198,6 +235,15 @@ export class ObservabilityService {
         stats.feedbackSummary.notHelpful += parseInt(dayStats["feedback:not_helpful"] as string || "0", 10);
         stats.feedbackSummary.partial += parseInt(dayStats["feedback:partial"] as string || "0", 10);
 
+        // Query embedding cache
+        stats.embeddingCache.hits += parseInt(dayStats["embedding_cache:hit"] as string || "0", 10);
+        stats.embeddingCache.misses += parseInt(dayStats["embedding_cache:miss"] as string || "0", 10);
+
+        // Rerank outcomes
+        stats.rerank.ok += parseInt(dayStats["rerank:ok"] as string || "0", 10);
+        stats.rerank.fallback += parseInt(dayStats["rerank:fallback"] as string || "0", 10);
+        stats.rerank.disabled += parseInt(dayStats["rerank:disabled"] as string || "0", 10);
+
         // Latency tracking (stored as JSON array)
         const latencyData = dayStats.latencies as string;
         if (latencyData) {
@@ -209,6 +255,9 @@ export class ObservabilityService {
         }
       }
 
+      const lookups = stats.embeddingCache.hits + stats.embeddingCache.misses;
+      stats.embeddingCache.hitRate = lookups > 0 ? stats.embeddingCache.hits / lookups : 0;
+
       // Calculate latency stats
       if (latencies.length > 0) {
         stats.avgLatencyMs = latencies.reduce((a, b) => a + b, 0) / latencies.length;
@@ -289,6 +338,43 @@ export class ObservabilityService {
     }
   }
 
+  /**
+   * Get rated queries with their logs (for confidence calibration).
+   * Feedback without a stored log is skipped.
+   */
+  async getRatedQueries(limit: number = 5000): Promise<RatedQuery[]> {
+    if (!this.redis) return [];
+
+    try {
+      const rated: RatedQuery[] = [];
+      let cursor = "0";
+
+      do {
+        const [next, keys] = await this.redis.scan(cursor, {
+          match: `${KEYS.FEEDBACK}*`,
+          count: 200,
+        });
+        cursor = String(next);
+
+        for (const key of keys) {
+          const data = await this.redis.get<string | FeedbackEntry>(key);
+          if (!data) continue;
+          const feedback = parseEntry<FeedbackEntry>(data);
+          const log = await this.getQueryLog(feedback.queryId);
+          if (log) {
+            rated.push({ log, feedback });
+          }
+          if (rated.length >= limit) return rated;
+        }
+      } while (cursor !== "0");
+
+      return rated;
+    } catch (error) {
+      console.error("Failed to get rated queries:", error);
+      return [];
+    }
+  }
+
   /**
    * Update daily statistics.
    */
@@ -304,6 +390,12 @@ export class ObservabilityService {
     pipeline.hincrby(statsKey, log.success ? "success" : "failed", 1);
     pipeline.hincrby(statsKey, `strategy:${log.strategy}`, 1);
     pipeline.hincrby(statsKey, `intent:${log.intent}`, 1);
+    if (log.embeddingCache) {
+      pipeline.hincrby(statsKey, `embedding_cache:${log.embeddingCache}`, 1);
+    }
+    if (log.rerank) {
+      pipeline.hincrby(statsKey, `rerank:${log.rerank}`, 1);
+    }
     pipeline.expire(statsKey, STATS_TTL);
 
     await pipeline.exec();
@@ -358,6 +450,11 @@ export class ObservabilityService {
   }
 }
 
+// Upstash may return parsed JSON objects or strings
+function parseEntry<T>(value: string | T): T {
+  return typeof value === "string" ? (JSON.parse(value) as T) : value;
+}
+
 /**
  * Generate a unique query ID.
  */
@@ -367,6 +464,19 @@ export function generateQueryId(): string {
   return `${timestamp}-${random}`;
 }
 
+/**
+ * Log query asynchronously without blocking the response.
+ */
+export function logQueryAsync(
+  queryId: string,
+  data: Omit<QueryLog, "id">
+): void {
+  const observability = getObservabilityService();
+  observability.logQuery({ id: queryId, ...data }).catch((err) => {
+    console.error("Failed to log query:", err);
+  });
+}
+
 /**
  * Singleton instance for the observability service.
  */
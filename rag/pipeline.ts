@@ -0,0 +1,478 @@
+/**
+ * RAG Pipeline for docs-chat.
+ * Runs classify → retrieve → fuse → rerank and builds the system prompt.
+ * Shared by /api/chat and the OpenAI-compatible completions endpoint.
+ */
+import { getEmbeddingProvider } from "./embeddings";
+import { CachedEmbeddingProvider, type EmbeddingCacheOutcome } from "./embedding-cache";
+import { matchesFilter, type DocsChunk, type SearchFilter } from "./vector-store";
+import { createVectorStore } from "./store-factory";
+import { Retriever } from "./retriever-upstash";
+import { classifyQuery, type ClassifiedQuery } from "./classifier";
+import {
+  getBM25Searcher,
+  type BM25CacheStatus,
+  type BM25Searcher,
+} from "./bm25-searcher";
+import { tokenize } from "./tokenizer";
+import { slugify } from "./chunker";
+import {
+  fuseResults,
+  getFusionConfig,
+  type FusedResult,
+  type FusionConfig,
+} from "./fusion";
+import { rerankDocuments, type RerankStatus } from "./reranker";
+import { buildContext, buildGeneralPrompt, buildSystemPrompt } from "./prompts";
+import { diversify } from "./diversity";
+import { expandContext } from "./context-expansion";
+import { DEFAULT_CONTEXT_TOKENS, packContext } from "./context-packer";
+import { estimateTokens } from "./conversation";
+import {
+  calibrate,
+  computeRelevanceRank,
+  DEFAULT_CONFIDENCE_THRESHOLD,
+  rawScore,
+  type RawScore,
+} from "./confidence";
+
+export const ALLOWED_STRATEGIES = ["auto", "hybrid", "semantic", "keyword"] as const;
+export type UserStrategy = (typeof ALLOWED_STRATEGIES)[number];
+
+const ENABLE_HYBRID = process.env.ENABLE_HYBRID_SEARCH === "true";
+
+const DEFAULT_LIMIT = 8;
+const CANDIDATE_LIMIT = 20;
+const MAX_RERANK_CANDIDATES = 25;
+// Reranked pool size per result slot handed to the diversity stage
+const DIVERSITY_POOL_FACTOR = 2;
+
+export interface RagSource {
+  id: string;
+  content: string;
+  title: string;
+  /** Link to the chunk's section (page url with heading anchor) */
+  url: string;
+  path: string;
+  /** Heading of the section the chunk starts in */
+  section?: string;
+  /** Final ranking score: rerank relevance, or a rank placeholder without reranking */
+  score: number;
+  semanticRank: number | null;
+  semanticScore: number | null;
+  keywordRank: number | null;
+  keywordScore: number | null;
+  fusedScore: number | null;
+  rerankScore: number | null;
+  /** Adjacent chunks of the same page, for context expansion */
+  prevId?: string;
+  nextId?: string;
+}
+
+export interface RetrieveOptions {
+  strategy?: UserStrategy;
+  limit?: number;
+  filter?: SearchFilter;
+  /** Per-request fusion override (experiments) */
+  fusion?: Partial<FusionConfig>;
+}
+
+export interface RetrieveResult {
+  classified: ClassifiedQuery;
+  sources: RagSource[];
+  retrievalMs: number;
+  rerankMs: number;
+  /** BM25 cache outcome, when keyword search ran */
+  bm25Cache?: BM25CacheStatus;
+  /** Query embedding cache outcome, when semantic search ran */
+  embeddingCache?: EmbeddingCacheOutcome;
+  /** Query embedding, when semantic search ran */
+  queryVector?: number[];
+  /** Fusion config used, when semantic and keyword results were fused */
+  fusion?: FusionConfig;
+  /** How the rerank stage ran; source scores are only relevances when "ok" */
+  rerank: RerankStatus;
+}
+
+export interface RagOptions extends RetrieveOptions {
+  confidenceThreshold?: number;
+  /** Token budget for documentation context (the model's `contextTokens`) */
+  contextTokens?: number;
+}
+
+export interface RagResult extends RetrieveResult {
+  /** Calibrated confidence per source */
+  topScores: number[];
+  bestScore: number;
+  /** Uncalibrated score behind `bestScore`, kept for refitting calibration */
+  bestRawScore: RawScore | null;
+  confidenceThreshold: number;
+  isLowConfidence: boolean;
+  relevanceRank: number;
+  systemPrompt: string;
+  /** Estimated tokens of documentation packed into the system prompt */
+  contextTokens: number;
+}
+
+/**
+ * Check whether a value is a supported retrieval strategy override.
+ */
+export function isUserStrategy(value: unknown): value is UserStrategy {
+  return (
+    typeof value === "string" &&
+    ALLOWED_STRATEGIES.includes(value as UserStrategy)
+  );
+}
+
+/**
+ * Runs retrieval for a standalone query and builds the system prompt
+ * from the reranked results.
+ */
+export async function runRagPipeline(
+  query: string,
+  options: RagOptions
+): Promise<RagResult> {
+  const confidenceThreshold =
+    options.confidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
+
+  const retrieved = await retrieveDocs(query, options);
+  const { classified, sources: finalResults } = retrieved;
+  const rawScores = finalResults.map((r) => rawScore(r, retrieved.rerank));
+  const topScores = rawScores.map((raw) => calibrate(raw));
+
+  const hasResults = finalResults.length > 0;
+  const bestScore = hasResults ? topScores[0] : 0;
+  const isLowConfidence = !hasResults || bestScore < confidenceThreshold;
+
+  const relevanceRank = computeRelevanceRank(
+    bestScore,
+    finalResults.length,
+    classified.intent,
+    isLowConfidence,
+  );
+
+  // Give the strongest hits their neighboring chunks, then fit the budget
+  // left after the question
+  const contextSources = hasResults
+    ? await expandContext(finalResults, createVectorStore())
+    : [];
+  const budget = Math.max(
+    0,
+    (options.contextTokens ?? DEFAULT_CONTEXT_TOKENS) - estimateTokens(query)
+  );
+  const packed = packContext(contextSources, budget);
+  const context = packed.sources.length > 0 ? buildContext(packed.sources) : "";
+
+  const systemPrompt = isLowConfidence
+    ? buildGeneralPrompt(context)
+    : buildSystemPrompt(context);
+
+  return {
+    ...retrieved,
+    topScores,
+    bestScore,
+    bestRawScore: rawScores[0] ?? null,
+    confidenceThreshold,
+    isLowConfidence,
+    relevanceRank,
+    systemPrompt,
+    contextTokens: packed.tokens,
+  };
+}
+
+/**
+ * Runs classify → retrieve → fuse → rerank without calling an LLM.
+ */
+export async function retrieveDocs(
+  query: string,
+  options: RetrieveOptions
+): Promise<RetrieveResult> {
+  const limit = options.limit ?? DEFAULT_LIMIT;
+
+  // Classify query for optimal retrieval strategy
+  const classified: ClassifiedQuery = classifyQuery(query);
+  const { phrases, excludeTerms, pathPrefixes, sections } = classified.operators;
+
+  // Request filter and path: operators must both match; the request
+  // filter is pushed down to the vector store when set, otherwise the operators.
+  // section: operators are checked against chunk headings after retrieval
+  const operatorFilter: SearchFilter | undefined =
+    pathPrefixes.length > 0 ? { pathPrefixes } : undefined;
+  const filter = options.filter?.pathPrefixes?.length ? options.filter : operatorFilter;
+  const isAllowed = (chunk: Omit<DocsChunk, "vector">) =>
+    matchesFilter(chunk.path, options.filter) &&
+    matchesFilter(chunk.path, operatorFilter) &&
+    matchesSection(chunk, sections) &&
+    !containsExcludedTerm(chunk, excludeTerms);
+  const hasOperators =
+    excludeTerms.length > 0 || phrases.length > 0 || sections.length > 0 || !!operatorFilter;
+
+  // Override strategy if user explicitly selected one (not "auto")
+  if (options.strategy && options.strategy !== "auto") {
+    classified.strategy = options.strategy;
+  }
+
+  // Initialize RAG components
+  const embeddings = new CachedEmbeddingProvider(getEmbeddingProvider());
+  const store = createVectorStore();
+  const retriever = new Retriever(store, embeddings);
+
+  let retrievalMs = 0;
+  let rerankMs = 0;
+  let finalResults: RagSource[] = [];
+  let bm25Cache: BM25CacheStatus | undefined;
+  let fusion: FusionConfig | undefined;
+  let rerank: RerankStatus = "disabled";
+
+  const retrievalStart = Date.now();
+
+  if (ENABLE_HYBRID) {
+    // ===== HYBRID SEARCH PIPELINE =====
+
+    // Load the BM25 postings for this query's terms (cached per index version)
+    const keywordQuery = classified.keywords.join(" ");
+    let bm25Searcher: BM25Searcher | null = null;
+    if (classified.strategy !== "semantic") {
+      const bm25 = await getBM25Searcher(tokenize([keywordQuery, ...phrases].join(" ")));
+      bm25Searcher = bm25.searcher;
+      bm25Cache = bm25.cache;
+    }
+
+    // Retrieve based on strategy
+    let semanticResults: Awaited<ReturnType<typeof retriever.retrieve>> = [];
+    let keywordResults: Array<{ id: string; score: number }> = [];
+    let phraseResults: Array<{ id: string; score: number }> = [];
+
+    // Semantic search (for semantic and hybrid strategies)
+    if (classified.strategy !== "keyword") {
+      semanticResults = await retriever.retrieve(classified.expanded, CANDIDATE_LIMIT, filter);
+    }
+
+    // Keyword search (for keyword and hybrid strategies)
+    // Hybrid fuses phrase matches as their own list; keyword-only ranks them first
+    if (bm25Searcher && classified.strategy === "hybrid") {
+      keywordResults = bm25Searcher.search(keywordQuery, CANDIDATE_LIMIT);
+      phraseResults = bm25Searcher.searchPhrases(phrases, CANDIDATE_LIMIT);
+    } else if (bm25Searcher && classified.strategy === "keyword") {
+      keywordResults = bm25Searcher.searchWithPhrases(keywordQuery, phrases, CANDIDATE_LIMIT);
+    }
+
+    // Keyword-only strategy with no BM25 hits: fall back to semantic search
+    if (classified.strategy === "keyword" && keywordResults.length === 0) {
+      semanticResults = await retriever.retrieve(classified.expanded, CANDIDATE_LIMIT, filter);
+    }
+
+    // Build chunk map for fusion (from semantic results)
+    const chunkMap = new Map(
+      semanticResults.map((r) => [r.chunk.id, r.chunk])
+    );
+
+    // Materialize BM25 hits that semantic search did not return
+    const missingIds = [...new Set([...keywordResults, ...phraseResults].map((r) => r.id))]
+      .filter((id) => !chunkMap.has(id));
+    if (missingIds.length > 0) {
+      const fetched = await store.fetchByIds(missingIds);
+      fetched.forEach((chunk) => chunkMap.set(chunk.id, chunk));
+      // Drop ids whose chunks are gone (index out of sync with BM25)
+      keywordResults = keywordResults.filter((r) => chunkMap.has(r.id));
+      phraseResults = phraseResults.filter((r) => chunkMap.has(r.id));
+    }
+
+    retrievalMs = Date.now() - retrievalStart;
+
+    // Fuse results based on strategy
+    let fusedResults: FusedResult[];
+
+    if (classified.strategy === "hybrid" && keywordResults.length > 0) {
+      // Hybrid: combine lists with the intent's fusion config
+      fusion = getFusionConfig(classified.intent, options.fusion);
+      fusedResults = fuseResults(
+        semanticResults,
+        keywordResults,
+        chunkMap,
+        fusion,
+        phraseResults
+      );
+    } else if (classified.strategy === "keyword" && keywordResults.length > 0) {
+      // Keyword only: BM25 order with materialized chunks
+      fusedResults = keywordResults.map((r, idx) => ({
+        id: r.id,
+        chunk: chunkMap.get(r.id)!,
+        semanticRank: null,
+        semanticScore: null,
+        keywordRank: idx + 1,
+        keywordScore: r.score,
+        fusedScore: r.score,
+      }));
+    } else {
+      // Semantic only or fallback
+      fusedResults = semanticResults.map((r, idx) => ({
+        id: r.chunk.id,
+        chunk: r.chunk,
+        semanticRank: idx + 1,
+        semanticScore: r.score,
+        keywordRank: null,
+        keywordScore: null,
+        fusedScore: r.score,
+      }));
+    }
+
+    // Keyword hits are not path-filtered at the source; exclusions apply to both
+    fusedResults = preferPhraseMatches(
+      fusedResults.filter((r) => isAllowed(r.chunk)),
+      (r) => r.chunk,
+      phrases
+    );
+
+    // Rerank with the configured cross-encoder
+    const rerankStart = Date.now();
+
+    const candidates = fusedResults.slice(0, MAX_RERANK_CANDIDATES);
+    const docsToRerank = candidates.map((r) => ({
+      id: r.id,
+      content: r.chunk.content,
+      title: r.chunk.title,
+      path: r.chunk.path,
+      url: r.chunk.url,
+    }));
+
+    const outcome = await rerankDocuments(
+      classified.text,
+      docsToRerank,
+      limit * DIVERSITY_POOL_FACTOR
+    );
+    const reranked = outcome.results;
+    rerank = outcome.status;
+
+    // Drop near-duplicates and cap chunks per page; embeddings are optional
+    const vectors = await store
+      .fetchVectors(reranked.map((r) => r.id))
+      .catch((err) => {
+        console.warn("Failed to fetch vectors for diversity, using token overlap:", err);
+        return new Map<string, number[]>();
+      });
+    const diversified = diversify(
+      reranked.map((r) => ({
+        ...r,
+        path: candidates.find((d) => d.id === r.id)!.chunk.path,
+        score: r.relevanceScore,
+      })),
+      { limit, vectors }
+    );
+
+    rerankMs = Date.now() - rerankStart;
+
+    // Map reranked results back with metadata
+    finalResults = diversified.map((r) => {
+      const original = candidates.find((d) => d.id === r.id)!;
+      return {
+        id: r.id,
+        content: original.chunk.content,
+        title: original.chunk.title,
+        url: original.chunk.sectionUrl ?? original.chunk.url,
+        path: original.chunk.path,
+        section: original.chunk.section,
+        score: r.relevanceScore,
+        semanticRank: original.semanticRank,
+        semanticScore: original.semanticScore,
+        keywordRank: original.keywordRank,
+        keywordScore: original.keywordScore,
+        fusedScore: original.fusedScore,
+        rerankScore: r.relevanceScore,
+        prevId: original.chunk.prevId,
+        nextId: original.chunk.nextId,
+      };
+    });
+  } else {
+    // ===== LEGACY SEMANTIC-ONLY PIPELINE =====
+    // Over-fetch when operators will drop candidates after retrieval
+    const retrieved = await retriever.retrieve(
+      classified.text,
+      hasOperators ? CANDIDATE_LIMIT : limit,
+      filter
+    );
+    const results = preferPhraseMatches(
+      retrieved.filter((r) => isAllowed(r.chunk)),
+      (r) => r.chunk,
+      phrases
+    ).slice(0, limit);
+    retrievalMs = Date.now() - retrievalStart;
+
+    finalResults = results.map((r, idx) => ({
+      id: r.chunk.id,
+      content: r.chunk.content,
+      title: r.chunk.title,
+      url: r.chunk.sectionUrl ?? r.chunk.url,
+      path: r.chunk.path,
+      section: r.chunk.section,
+      score: r.score,
+      semanticRank: idx + 1,
+      semanticScore: r.score,
+      keywordRank: null,
+      keywordScore: null,
+      fusedScore: null,
+      rerankScore: null,
+      prevId: r.chunk.prevId,
+      nextId: r.chunk.nextId,
+    }));
+  }
+
+  return {
+    classified,
+    sources: finalResults,
+    retrievalMs,
+    rerankMs,
+    bm25Cache,
+    embeddingCache: embeddings.outcome,
+    queryVector: retriever.queryVector ?? undefined,
+    fusion,
+    rerank,
+  };
+}
+
+/**
+ * Check whether a chunk lies in one of the named sections: the page title
+ * or a heading above the chunk contains the name (compared as anchor slugs,
+ * so case and punctuation do not matter).
+ */
+function matchesSection(chunk: Omit<DocsChunk, "vector">, sections: string[]): boolean {
+  if (sections.length === 0) return true;
+
+  const headings = [chunk.title, ...(chunk.headings ?? [])].map(slugify);
+  return sections.some((section) => {
+    const slug = slugify(section);
+    return headings.some((heading) => heading.includes(slug));
+  });
+}
+
+/**
+ * Check whether a chunk mentions any excluded term.
+ */
+function containsExcludedTerm(chunk: Omit<DocsChunk, "vector">, excludeTerms: string[]): boolean {
+  if (excludeTerms.length === 0) return false;
+
+  const tokens = new Set(tokenize(`${chunk.title} ${chunk.content}`, { stem: false }));
+  return excludeTerms.some((term) =>
+    tokenize(term, { subTokens: false, stem: false }).some((t) => tokens.has(t))
+  );
+}
+
+/**
+ * Keep results containing every quoted phrase verbatim, unless none do.
+ */
+function preferPhraseMatches<T>(
+  results: T[],
+  getChunk: (result: T) => Omit<DocsChunk, "vector">,
+  phrases: string[]
+): T[] {
+  if (phrases.length === 0) return results;
+
+  const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, " ");
+  const wanted = phrases.map(normalize);
+  const matching = results.filter((r) => {
+    const content = normalize(getChunk(r).content);
+    return wanted.every((phrase) => content.includes(phrase));
+  });
+
+  return matching.length > 0 ? matching : results;
+}
@@ -0,0 +1,79 @@
+/**
+ * Prompt builders for docs-chat RAG pipeline.
+ * Turns retrieved chunks into LLM context and system prompts.
+ */
+
+export interface ContextSource {
+  title: string;
+  /** Section link when the chunk's section is known */
+  url: string;
+  section?: string;
+  content: string;
+}
+
+/**
+ * Citation line for a source: page title and section, linked to the section.
+ */
+export function buildSourceHeader(source: ContextSource): string {
+  const label = source.section ? `${source.title} - ${source.section}` : source.title;
+  return `[${label}](${source.url})`;
+}
+
+/**
+ * Formats retrieved chunks as citable documentation excerpts.
+ * Sources are expected to be packed to the token budget already (see context-packer).
+ */
+export function buildContext(sources: ContextSource[]): string {
+  return sources
+    .map((source) => `${buildSourceHeader(source)}\n${source.content}`)
+    .join("\n\n---\n\n");
+}
+
+export function buildSystemPrompt(context: string): string {
+  return `You are an expert assistant for OpenClaw documentation.
+
+INSTRUCTIONS:
+1. Answer ONLY from the provided documentation excerpts
+2. If the answer is not in the excerpts, clearly state this
+3. Cite sources using [Source Title](URL) format, with the excerpt's exact URL including its #section anchor
+4. For code examples, use the exact code from docs when available
+5. Be concise but complete
+6. If multiple approaches exist, mention the recommended one first
+
+CONFIDENCE:
+- If you're highly confident, answer directly
+- If partially confident, caveat with "Based on the available documentation..."
+- If not confident, say "I couldn't find specific documentation for this..."
+
+DOCUMENTATION EXCERPTS:
+${context}`;
+}
+
+/**
+ * Broader prompt used when retrieval confidence is low or no docs match.
+ * Allows general AI/agent knowledge while relating back to OpenClaw.
+ */
+export function buildGeneralPrompt(context: string): string {
+  const contextBlock = context
+    ? `\n\nThe following documentation excerpts may be partially relevant — cite them with [Source Title](URL) if you use them:\n\n${context}`
+    : "";
+
+  return `You are an expert assistant for OpenClaw — an open-source AI agent framework.
+You have deep knowledge of AI, AI agents, LLMs, RAG, prompt engineering, and related topics.
+
+INSTRUCTIONS:
+1. Answer the user's question using your general knowledge of AI and AI agents
+2. Where relevant, explain how the topic relates to OpenClaw or how OpenClaw handles it
+3. If documentation excerpts are provided and relevant, cite them using [Source Title](URL) format
+4. Clearly distinguish between information from the docs and your general knowledge
+5. Be concise but complete
+6. If you are unsure about OpenClaw-specific details, say so rather than guessing
+
+SCOPE:
+- AI concepts, architectures, and best practices
+- AI agents, tool use, planning, and orchestration
+- LLMs, embeddings, RAG, vector databases
+- OpenClaw features, APIs, and workflows
+- Comparisons with other frameworks (when asked)
+- General software engineering in the context of AI applications${contextBlock}`;
+}
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import {
+  createReranker,
+  formatRerankDocument,
+  getRerankerName,
+  parseLLMScores,
+  rerankDocuments,
+  type RerankerProvider,
+} from "./reranker";
+
+const doc = {
+  id: "gateway",
+  title: "Gateway",
+  path: "/gateway/config",
+  url: "https://docs.test/gateway/config",
+  content: "Configure the gateway.",
+};
+
+describe("formatRerankDocument", () => {
+  test("renders the default template", () => {
+    expect(formatRerankDocument(doc)).toBe("Gateway\n/gateway/config\n\nConfigure the gateway.");
+  });
+
+  test("drops template lines whose fields are all empty", () => {
+    expect(formatRerankDocument({ id: "a", content: "Body" }, "{title}\n{url}\n\n{content}")).toBe(
+      "Body"
+    );
+  });
+
+  test("keeps literal text and unknown placeholders", () => {
+    expect(formatRerankDocument(doc, "Title: {title} ({lang})\n{content}")).toBe(
+      "Title: Gateway ({lang})\nConfigure the gateway."
+    );
+  });
+});
+
+describe("parseLLMScores", () => {
+  test("maps scores to candidate indexes, clamped to 0-10", () => {
+    const output = '[{"index": 2, "score": 9}, {"index": 0, "score": 14}, {"index": 1, "score": -1}]';
+    expect(parseLLMScores(output, 3)).toEqual([10, 0, 9]);
+  });
+
+  test("finds the array inside prose with brackets", () => {
+    const output = 'Passage [0] is best, [1] less so:\n```json\n[{"index": 0, "score": 8}]\n```';
+    expect(parseLLMScores(output, 2)).toEqual([8, 0]);
+  });
+
+  test("ignores out-of-range and malformed entries", () => {
+    const output = '[{"index": 5, "score": 7}, {"index": "x", "score": 7}, {"index": 1, "score": "high"}]';
+    expect(parseLLMScores(output, 2)).toEqual([0, 0]);
+  });
+
+  test("throws descriptive errors for missing or invalid score arrays", () => {
+    expect(() => parseLLMScores("All passages are irrelevant.", 2)).toThrow(
+      "LLM reranker returned no score array"
+    );
+    expect(() => parseLLMScores('[{"index": 0, "score": 8} {"index": 1, "score": 3}]', 2)).toThrow(
+      "LLM reranker returned invalid score JSON"
+    );
+  });
+});
+
+describe("reranker registry", () => {
+  const resetEnv = () => {
+    delete process.env.RERANKER;
+    delete process.env.COHERE_API_KEY;
+    delete process.env.JINA_API_KEY;
+  };
+  beforeEach(resetEnv);
+  afterEach(resetEnv);
+
+  test("defaults to cohere only when its key is set", () => {
+    expect(getRerankerName()).toBe("none");
+    process.env.COHERE_API_KEY = "key";
+    expect(getRerankerName()).toBe("cohere");
+    process.env.RERANKER = "voyage";
+    expect(getRerankerName()).toBe("voyage");
+  });
+
+  test("rejects HTTP backends without credentials", () => {
+    expect(() => createReranker("jina")).toThrow();
+    expect(createReranker("none").name).toBe("none");
+  });
+});
+
+describe("rerankDocuments", () => {
+  const documents = [doc, { ...doc, id: "install" }];
+
+  test("keeps the incoming order when the backend fails", async () => {
+    const failing: RerankerProvider = {
+      name: "cohere",
+      rerank: () => Promise.reject(new Error("unavailable")),
+    };
+    const consoleError = spyOn(console, "error").mockImplementation(() => {});
+    const outcome = await rerankDocuments("gateway", documents, 2, failing);
+    consoleError.mockRestore();
+    expect(outcome.status).toBe("fallback");
+    expect(outcome.results.map((r) => r.id)).toEqual(["gateway", "install"]);
+  });
+
+  test("reports a disabled reranker", async () => {
+    const outcome = await rerankDocuments("gateway", documents, 1, createReranker("none"));
+    expect(outcome.status).toBe("disabled");
+    expect(outcome.results).toHaveLength(1);
+  });
+});
@@ -1,11 +1,29 @@
 /**
- * Cohere Rerank Integration for docs-chat RAG pipeline.
- * Uses cross-encoder model for high-precision relevance scoring.
+ * Reranker Backends for docs-chat RAG pipeline.
+ * Scores retrieved candidates against the query with a cross-encoder:
+ * Cohere, Jina or Voyage over HTTP, an LLM scoring all candidates in one
+ * prompt, or a CPU-local transformers.js model.
+ *
+ * Environment variables:
+ *   RERANKER - "cohere", "jina", "voyage", "llm", "local" or "none"
+ *              (default: cohere when COHERE_API_KEY is set, otherwise none)
+ *   RERANK_MODEL - Model for the selected backend (default depends on the backend)
+ *   RERANK_DOCUMENT_TEMPLATE - Candidate text sent to the reranker, with
+ *              {title}, {path}, {url} and {content} placeholders
+ *   COHERE_API_KEY / JINA_API_KEY / VOYAGE_API_KEY - Credentials for the HTTP backends
  */
+import { getDefaultModel, getModelConfig } from "./chat-models";
+import { streamModelChat } from "./chat-providers";
+import { importTransformers } from "./embeddings";
+
+export type RerankerName = "cohere" | "jina" | "voyage" | "llm" | "local" | "none";
 
 export interface RerankDocument {
   id: string;
   content: string;
+  title?: string;
+  path?: string;
+  url?: string;
 }
 
 export interface RerankResult {
@@ -15,28 +33,119 @@ export interface RerankResult {
   originalRank: number;
 }
 
-// Cohere rerank model options
-const RERANK_MODEL = "rerank-v3.5";
+/**
+ * How the rerank stage ran:
+ * - ok: scores come from the reranker
+ * - fallback: the reranker failed and the incoming order was kept
+ * - disabled: no reranker is configured
+ * Without "ok", `relevanceScore` is a rank placeholder, not a relevance.
+ */
+export type RerankStatus = "ok" | "fallback" | "disabled";
+
+export interface RerankOutcome {
+  results: RerankResult[];
+  status: RerankStatus;
+}
 
 /**
- * Reranker using Cohere's cross-encoder model.
+ * Common interface for reranking backends.
+ * Returns the top N documents, most relevant first.
  */
-export class Reranker {
-  private apiKey: string;
-  private model: string;
+export interface RerankerProvider {
+  readonly name: RerankerName;
+  rerank(query: string, documents: RerankDocument[], topN?: number): Promise<RerankResult[]>;
+}
+
+const DEFAULT_DOCUMENT_TEMPLATE = "{title}\n{path}\n\n{content}";
+const TEMPLATE_FIELD = /\{(title|path|url|content)\}/;
 
-  constructor(apiKey: string, model: string = RERANK_MODEL) {
+interface HttpRerankerConfig {
+  url: string;
+  apiKeyEnv: string;
+  defaultModel: string;
+  /** Request field for the number of results */
+  topNField: "top_n" | "top_k";
+  /** Response field holding the scored results */
+  resultsField: "results" | "data";
+}
+
+// Cohere, Jina and Voyage share one request/response shape up to field names
+const HTTP_RERANKERS: Record<"cohere" | "jina" | "voyage", HttpRerankerConfig> = {
+  cohere: {
+    url: "https://api.cohere.com/v2/rerank",
+    apiKeyEnv: "COHERE_API_KEY",
+    defaultModel: "rerank-v3.5",
+    topNField: "top_n",
+    resultsField: "results",
+  },
+  jina: {
+    url: "https://api.jina.ai/v1/rerank",
+    apiKeyEnv: "JINA_API_KEY",
+    defaultModel: "jina-reranker-v2-base-multilingual",
+    topNField: "top_n",
+    resultsField: "results",
+  },
+  voyage: {
+    url: "https://api.voyageai.com/v1/rerank",
+    apiKeyEnv: "VOYAGE_API_KEY",
+    defaultModel: "rerank-2",
+    topNField: "top_k",
+    resultsField: "data",
+  },
+};
+
+const DEFAULT_LOCAL_MODEL = "Xenova/ms-marco-MiniLM-L-6-v2";
+
+// Candidate text is cut to this length in the LLM scoring prompt
+const LLM_MAX_DOCUMENT_CHARS = 1200;
+
+// The JSON array of {"index", "score"} objects in the LLM's reply
+const LLM_SCORES = /\[\s*\{[\s\S]*\}\s*\]/;
+
+/**
+ * Render a candidate with the document template.
+ * Template lines whose fields are all empty are dropped.
+ */
+export function formatRerankDocument(
+  doc: RerankDocument,
+  template: string = getDocumentTemplate()
+): string {
+  const fields: Record<string, string> = {
+    title: doc.title ?? "",
+    path: doc.path ?? "",
+    url: doc.url ?? "",
+    content: doc.content,
+  };
+  const render = (line: string) =>
+    line.replace(/\{(\w+)\}/g, (match, field: string) => fields[field] ?? match);
+
+  return template
+    .split("\n")
+    .filter((line) => !TEMPLATE_FIELD.test(line) || render(line).trim() !== "")
+    .map(render)
+    .join("\n")
+    .trim();
+}
+
+function getDocumentTemplate(): string {
+  // Env files cannot hold real newlines; accept "\n" escapes
+  return (process.env.RERANK_DOCUMENT_TEMPLATE || DEFAULT_DOCUMENT_TEMPLATE).replace(/\\n/g, "\n");
+}
+
+/**
+ * Hosted cross-encoder behind a Cohere-style /rerank endpoint.
+ */
+export class HttpReranker implements RerankerProvider {
+  constructor(
+    readonly name: "cohere" | "jina" | "voyage",
+    private readonly apiKey: string,
+    private readonly model: string = HTTP_RERANKERS[name].defaultModel,
+  ) {
     if (!apiKey) {
-      throw new Error("COHERE_API_KEY is required for reranking");
+      throw new Error(`${HTTP_RERANKERS[name].apiKeyEnv} is required for ${name} reranking`);
     }
-    this.apiKey = apiKey;
-    this.model = model;
   }
 
-  /**
-   * Rerank documents by relevance to the query.
-   * Returns the top N most relevant documents.
-   */
   async rerank(
     query: string,
     documents: RerankDocument[],
@@ -46,109 +155,157 @@ export class Reranker {
       return [];
     }
 
-    // If fewer documents than requested, just score them all
-    const effectiveTopN = Math.min(topN, documents.length);
+    const config = HTTP_RERANKERS[this.name];
+    const response = await fetch(config.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        query,
+        documents: documents.map((d) => formatRerankDocument(d)),
+        [config.topNField]: Math.min(topN, documents.length),
+        return_documents: false,
+      }),
+    });
 
-    try {
-      const response = await fetch("https://api.cohere.com/v2/rerank", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: this.model,
-          query,
-          documents: documents.map(d => d.content),
-          top_n: effectiveTopN,
-          return_documents: false,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        console.error("Cohere rerank error:", error);
-        throw new Error(`Cohere API error: ${response.status}`);
-      }
-
-      const data = await response.json() as CohereRerankResponse;
-
-      // Map results back to original documents
-      return data.results.map(result => ({
-        id: documents[result.index].id,
-        content: documents[result.index].content,
-        relevanceScore: result.relevance_score,
-        originalRank: result.index,
-      }));
-    } catch (error) {
-      console.error("Reranking failed:", error);
-      // Fallback: return documents in original order with decreasing scores
-      return documents.slice(0, effectiveTopN).map((doc, index) => ({
-        id: doc.id,
-        content: doc.content,
-        relevanceScore: 1 - (index / documents.length),
-        originalRank: index,
-      }));
+    if (!response.ok) {
+      const error = await response.text();
+      console.error(`${this.name} rerank error:`, error);
+      throw new Error(`${this.name} rerank API error: ${response.status}`);
     }
-  }
 
-  /**
-   * Rerank with metadata preserved.
-   * Useful when you need to keep additional fields through the reranking.
-   */
-  async rerankWithMetadata<T extends RerankDocument>(
-    query: string,
-    documents: T[],
-    topN: number = 8
-  ): Promise<Array<T & { relevanceScore: number; originalRank: number }>> {
-    const results = await this.rerank(query, documents, topN);
-    
-    return results.map(result => {
-      const originalDoc = documents.find(d => d.id === result.id)!;
-      return {
-        ...originalDoc,
-        relevanceScore: result.relevanceScore,
-        originalRank: result.originalRank,
-      };
-    });
+    const data = (await response.json()) as Record<string, HttpRerankScore[]>;
+    return toResults(documents, data[config.resultsField]);
   }
 }
 
 /**
- * Cohere API response type.
+ * Scores all candidates in one prompt with a configured chat model.
+ * Useful without a dedicated rerank API; slower and costlier per query.
  */
-interface CohereRerankResponse {
-  id: string;
-  results: Array<{
-    index: number;
-    relevance_score: number;
-  }>;
-  meta: {
-    api_version: { version: string };
-    billed_units: { search_units: number };
-  };
+export class LLMReranker implements RerankerProvider {
+  readonly name: RerankerName = "llm";
+
+  constructor(private readonly model: string) {
+    if (!getModelConfig(model)) {
+      throw new Error(`Unknown or unavailable chat model for LLM reranking: ${model}`);
+    }
+  }
+
+  async rerank(
+    query: string,
+    documents: RerankDocument[],
+    topN: number = 8
+  ): Promise<RerankResult[]> {
+    if (documents.length === 0) {
+      return [];
+    }
+
+    const candidates = documents
+      .map((doc, index) =>
+        `[${index}]\n${formatRerankDocument(doc).slice(0, LLM_MAX_DOCUMENT_CHARS)}`
+      )
+      .join("\n\n");
+
+    const completion = await streamModelChat(
+      // Sampling settings (e.g. temperature) come from the model config
+      getModelConfig(this.model)!,
+      [
+        {
+          role: "system",
+          content:
+            "You rank documentation passages by how well they answer a question. " +
+            "Score every passage from 0 (irrelevant) to 10 (directly answers it). " +
+            'Reply with JSON only: [{"index": 0, "score": 7}, ...]',
+        },
+        { role: "user", content: `Question: ${query}\n\nPassages:\n\n${candidates}` },
+      ]
+    );
+
+    let output = "";
+    for await (const chunk of completion) {
+      if (chunk.content) output += chunk.content;
+    }
+
+    const scores = parseLLMScores(output, documents.length);
+    return toResults(
+      documents,
+      scores.map((score, index) => ({ index, relevance_score: score / 10 }))
+    ).slice(0, topN);
+  }
 }
 
+type SequenceClassifier = (inputs: unknown) => Promise<{
+  logits: { sigmoid(): { tolist(): number[][] } };
+}>;
+type PairTokenizer = (
+  texts: string[],
+  options: { text_pair: string[]; padding: boolean; truncation: boolean }
+) => unknown;
+
+// Loaded cross-encoders per model name
+const crossEncoders = new Map<string, Promise<{ tokenizer: PairTokenizer; model: SequenceClassifier }>>();
+
 /**
- * Factory function to create a Reranker with optional fallback.
- * Returns null if Cohere is not configured.
+ * CPU-local cross-encoder via transformers.js (ONNX runtime).
+ * Requires the optional `@huggingface/transformers` package.
  */
-export function createReranker(): Reranker | null {
-  const apiKey = process.env.COHERE_API_KEY;
-  
-  if (!apiKey) {
-    console.warn("COHERE_API_KEY not set, reranking will be disabled");
-    return null;
+export class LocalReranker implements RerankerProvider {
+  readonly name: RerankerName = "local";
+
+  constructor(private readonly model: string = DEFAULT_LOCAL_MODEL) { }
+
+  async rerank(
+    query: string,
+    documents: RerankDocument[],
+    topN: number = 8
+  ): Promise<RerankResult[]> {
+    if (documents.length === 0) {
+      return [];
+    }
+
+    const { tokenizer, model } = await this.load();
+    const inputs = tokenizer(documents.map(() => query), {
+      text_pair: documents.map((d) => formatRerankDocument(d)),
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await model(inputs);
+    const scores = logits.sigmoid().tolist().map(([score]) => score);
+
+    return toResults(
+      documents,
+      scores.map((score, index) => ({ index, relevance_score: score }))
+    ).slice(0, topN);
   }
 
-  return new Reranker(apiKey);
+  private load() {
+    let loaded = crossEncoders.get(this.model);
+    if (!loaded) {
+      loaded = importTransformers().then(async (transformers) => ({
+        tokenizer: (await transformers.AutoTokenizer.from_pretrained(this.model)) as PairTokenizer,
+        model: (await transformers.AutoModelForSequenceClassification.from_pretrained(
+          this.model
+        )) as SequenceClassifier,
+      }));
+      // Let a failed load be retried on the next call
+      loaded.catch(() => crossEncoders.delete(this.model));
+      crossEncoders.set(this.model, loaded);
+    }
+    return loaded;
+  }
 }
 
 /**
- * Simple passthrough reranker for when Cohere is not available.
+ * Simple passthrough reranker for when no reranker is configured.
  * Maintains the same interface but just returns documents in original order.
  */
-export class PassthroughReranker {
+export class PassthroughReranker implements RerankerProvider {
+  readonly name: RerankerName = "none";
+
   async rerank(
     _query: string,
     documents: RerankDocument[],
@@ -164,9 +321,118 @@ export class PassthroughReranker {
 }
 
 /**
- * Get a reranker instance (Cohere if available, passthrough otherwise).
+ * Score entry returned by the HTTP rerank APIs.
+ */
+interface HttpRerankScore {
+  index: number;
+  relevance_score: number;
+}
+
+/**
+ * Map scored indexes back to documents, most relevant first.
+ */
+function toResults(documents: RerankDocument[], scores: HttpRerankScore[]): RerankResult[] {
+  return [...scores]
+    .sort((a, b) => b.relevance_score - a.relevance_score)
+    .map((result) => ({
+      id: documents[result.index].id,
+      content: documents[result.index].content,
+      relevanceScore: result.relevance_score,
+      originalRank: result.index,
+    }));
+}
+
+/**
+ * Parse the LLM's JSON scores, ignoring any prose around the array;
+ * unscored candidates get 0.
+ */
+export function parseLLMScores(output: string, count: number): number[] {
+  const json = output.match(LLM_SCORES)?.[0];
+  if (!json) {
+    throw new Error(`LLM reranker returned no score array: ${output.slice(0, 200)}`);
+  }
+
+  let parsed: Array<{ index?: unknown; score?: unknown }>;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(
+      `LLM reranker returned invalid score JSON: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const scores = new Array<number>(count).fill(0);
+  for (const entry of parsed) {
+    const index = Number(entry?.index);
+    const score = Number(entry?.score);
+    if (Number.isInteger(index) && index >= 0 && index < count && Number.isFinite(score)) {
+      scores[index] = Math.min(Math.max(score, 0), 10);
+    }
+  }
+  return scores;
+}
+
+/**
+ * Get the configured reranker backend name.
+ */
+export function getRerankerName(): RerankerName {
+  const name = process.env.RERANKER as RerankerName | undefined;
+  if (name && ["cohere", "jina", "voyage", "llm", "local", "none"].includes(name)) {
+    return name;
+  }
+  return process.env.COHERE_API_KEY ? "cohere" : "none";
+}
+
+/**
+ * Create a reranker backend by name. Throws when it is not configured.
  */
-export function getReranker(): Reranker | PassthroughReranker {
-  const cohereReranker = createReranker();
-  return cohereReranker || new PassthroughReranker();
+export function createReranker(name: RerankerName = getRerankerName()): RerankerProvider {
+  const model = process.env.RERANK_MODEL || undefined;
+  switch (name) {
+    case "cohere":
+    case "jina":
+    case "voyage":
+      return new HttpReranker(name, process.env[HTTP_RERANKERS[name].apiKeyEnv] || "", model);
+    case "llm":
+      return new LLMReranker(model || getDefaultModel() || "");
+    case "local":
+      return new LocalReranker(model);
+    case "none":
+      return new PassthroughReranker();
+  }
+}
+
+/**
+ * Get the configured reranker, or passthrough when it cannot be created.
+ */
+export function getReranker(): RerankerProvider {
+  try {
+    return createReranker();
+  } catch (error) {
+    console.warn("Reranker not configured, reranking will be disabled:", error);
+    return new PassthroughReranker();
+  }
+}
+
+/**
+ * Rerank documents and report how the stage ran.
+ * A failing backend keeps the incoming order instead of failing the request.
+ */
+export async function rerankDocuments(
+  query: string,
+  documents: RerankDocument[],
+  topN: number,
+  reranker: RerankerProvider = getReranker()
+): Promise<RerankOutcome> {
+  const passthrough = new PassthroughReranker();
+  if (reranker.name === "none") {
+    return { results: await passthrough.rerank(query, documents, topN), status: "disabled" };
+  }
+
+  try {
+    return { results: await reranker.rerank(query, documents, topN), status: "ok" };
+  } catch (error) {
+    console.error("Reranking failed:", error);
+    return { results: await passthrough.rerank(query, documents, topN), status: "fallback" };
+  }
 }
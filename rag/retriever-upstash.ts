@@ -2,8 +2,19 @@
  * Hybrid retriever for docs-chat RAG pipeline (Upstash Vector version).
  * Combines vector similarity with keyword boosting for improved relevance.
  */
-import { Embeddings } from "./embeddings";
-import { DocsStore, type DocsChunk, type SearchResult } from "./store-upstash";
+import {
+  describeEmbeddingModel,
+  isSameEmbeddingModel,
+  LEGACY_INDEX_EMBEDDING,
+  type EmbeddingProvider,
+} from "./embeddings";
+import {
+  withoutVector,
+  type DocsChunk,
+  type SearchFilter,
+  type SearchResult,
+  type VectorStore,
+} from "./vector-store";
 
 export interface RetrievalResult {
   chunk: Omit<DocsChunk, "vector">;
@@ -11,9 +22,14 @@ export interface RetrievalResult {
 }
 
 export class Retriever {
+  private indexChecked = false;
+
+  /** Embedding of the last retrieved query */
+  queryVector: number[] | null = null;
+
   constructor(
-    private readonly store: DocsStore,
-    private readonly embeddings: Embeddings,
+    private readonly store: VectorStore,
+    private readonly embeddings: EmbeddingProvider,
   ) { }
 
   /**
@@ -21,12 +37,19 @@ export class Retriever {
    * - Primary: vector similarity search
    * - Secondary: keyword boost for exact term matches
    */
-  async retrieve(query: string, limit: number = 8): Promise<RetrievalResult[]> {
+  async retrieve(
+    query: string,
+    limit: number = 8,
+    filter?: SearchFilter,
+  ): Promise<RetrievalResult[]> {
+    await this.checkIndexEmbedding();
+
     // Generate query embedding
     const queryVector = await this.embeddings.embed(query);
+    this.queryVector = queryVector;
 
     // Over-fetch for reranking (2x limit)
-    const searchResults = await this.store.search(queryVector, limit * 2);
+    const searchResults = await this.store.search(queryVector, limit * 2, filter);
 
     if (searchResults.length === 0) {
       return [];
@@ -42,17 +65,29 @@ export class Retriever {
     scored.sort((a, b) => b.score - a.score);
 
     return scored.slice(0, limit).map((item) => ({
-      chunk: {
-        id: item.chunk.id,
-        path: item.chunk.path,
-        title: item.chunk.title,
-        content: item.chunk.content,
-        url: item.chunk.url,
-      },
+      chunk: withoutVector(item.chunk),
       score: item.score,
     }));
   }
 
+  /**
+   * Refuse to query an index built with a different embedding model:
+   * its vectors live in another space and similarity would be meaningless.
+   */
+  private async checkIndexEmbedding(): Promise<void> {
+    if (this.indexChecked) return;
+
+    const indexed = (await this.store.getEmbeddingModel()) ?? LEGACY_INDEX_EMBEDDING;
+    if (!isSameEmbeddingModel(indexed, this.embeddings)) {
+      throw new Error(
+        `Embedding model mismatch: index was built with ${describeEmbeddingModel(indexed)}, ` +
+          `queries use ${describeEmbeddingModel(this.embeddings)}. ` +
+          "Re-index or set EMBEDDING_PROVIDER/EMBEDDING_MODEL to match."
+      );
+    }
+    this.indexChecked = true;
+  }
+
   /**
    * Compute hybrid score combining vector similarity and keyword boost.
    */
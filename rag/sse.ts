@@ -0,0 +1,71 @@
+/**
+ * Server-Sent Events helpers for docs-chat streaming responses.
+ * Defines the typed events emitted when a client opts into
+ * `Accept: text/event-stream` on /api/chat.
+ */
+import type { QueryIntent, RetrievalStrategy } from "./classifier";
+import type { AnswerCacheStatus } from "./answer-cache";
+import type { RerankStatus } from "./reranker";
+
+export interface MetaEventData {
+  queryId: string;
+  intent: QueryIntent;
+  strategy: RetrievalStrategy;
+  threshold: number;
+  bestScore: number;
+  lowConfidence: boolean;
+  relevanceRank: number;
+  resultCount: number;
+  retrievalMs: number;
+  rerankMs: number;
+  /** "fallback" when reranking failed and fused order was kept */
+  rerank: RerankStatus;
+  model: string;
+  conversationId?: string;
+  /** Fusion used for hybrid results */
+  fusion?: string;
+  /** Estimated tokens of documentation context */
+  contextTokens: number;
+  /** "hit" when the answer is replayed from the answer cache */
+  answerCache: AnswerCacheStatus;
+}
+
+export interface SourceEventData {
+  id: string;
+  title: string;
+  url: string;
+  path: string;
+  section?: string;
+  score: number;
+}
+
+export interface UsageEventData {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type ChatStreamEvent =
+  | { event: "meta"; data: MetaEventData }
+  | { event: "sources"; data: { sources: SourceEventData[] } }
+  | { event: "delta"; data: { content: string } }
+  | { event: "usage"; data: UsageEventData }
+  | { event: "done"; data: { queryId: string; totalMs: number } }
+  | { event: "error"; data: { message: string } };
+
+export const EVENT_STREAM_CONTENT_TYPE = "text/event-stream";
+
+/**
+ * Check whether the client asked for the structured event stream.
+ */
+export function acceptsEventStream(request: Request): boolean {
+  const accept = request.headers.get("Accept") || "";
+  return accept.includes(EVENT_STREAM_CONTENT_TYPE);
+}
+
+/**
+ * Encode a typed event in SSE wire format.
+ */
+export function encodeEvent({ event, data }: ChatStreamEvent): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
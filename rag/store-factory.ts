@@ -0,0 +1,26 @@
+/**
+ * Vector store selection for docs-chat RAG pipeline.
+ *
+ * Environment variables:
+ *   VECTOR_STORE - "upstash" (default) or "local" (file snapshot, see store-local)
+ */
+import { DocsStore } from "./store-upstash";
+import { LocalDocsStore } from "./store-local";
+import type { VectorStore } from "./vector-store";
+
+export type VectorStoreMode = "upstash" | "local";
+
+/**
+ * Get the configured vector store backend.
+ */
+export function getVectorStoreMode(): VectorStoreMode {
+  return process.env.VECTOR_STORE === "local" ? "local" : "upstash";
+}
+
+/**
+ * Create the configured vector store, reading the active index unless a
+ * namespace is given. The local store has a single snapshot and ignores it.
+ */
+export function createVectorStore(namespace?: string): VectorStore {
+  return getVectorStoreMode() === "local" ? new LocalDocsStore() : new DocsStore(namespace);
+}
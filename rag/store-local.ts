@@ -0,0 +1,229 @@
+/**
+ * Local file-backed vector store for docs-chat RAG pipeline.
+ * Keeps chunks and embeddings in a JSON snapshot and answers queries with
+ * brute-force cosine similarity, for offline development and test boxes.
+ *
+ * Environment variables:
+ *   LOCAL_VECTOR_STORE_PATH - Snapshot file (default: .data/vectors.json)
+ */
+import { mkdir, readFile, rename, rm, stat, writeFile } from "fs/promises";
+import { dirname, resolve } from "path";
+import type { EmbeddingModelInfo } from "./embeddings";
+import {
+  matchesFilter,
+  withoutVector,
+  type DocsChunk,
+  type IndexChanges,
+  type IndexManifest,
+  type SearchFilter,
+  type SearchResult,
+  type VectorStore,
+} from "./vector-store";
+
+const DEFAULT_SNAPSHOT_PATH = ".data/vectors.json";
+const SNAPSHOT_VERSION = 1;
+
+interface Snapshot {
+  version: number;
+  createdAt: number;
+  /** Absent in snapshots written before the embedding model was recorded */
+  embedding?: EmbeddingModelInfo;
+  /** Absent in snapshots written before manifests were saved */
+  manifest?: IndexManifest;
+  chunks: DocsChunk[];
+}
+
+// Loaded snapshots per file, reloaded when the file changes
+const snapshots = new Map<string, { mtimeMs: number; snapshot: Snapshot }>();
+
+export class LocalDocsStore implements VectorStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string = process.env.LOCAL_VECTOR_STORE_PATH || DEFAULT_SNAPSHOT_PATH) {
+    this.filePath = resolve(process.cwd(), filePath);
+  }
+
+  /**
+   * Write a new snapshot, replacing the previous one atomically.
+   */
+  async replaceAll(chunks: DocsChunk[], manifest: IndexManifest): Promise<void> {
+    await this.write(chunks, manifest.embedding, manifest);
+  }
+
+  /**
+   * Apply an incremental update and rewrite the snapshot.
+   */
+  async applyChanges(changes: IndexChanges, manifest: IndexManifest): Promise<void> {
+    const byId = new Map((await this.load()).chunks.map((chunk) => [chunk.id, chunk]));
+
+    for (const id of changes.deletes) {
+      byId.delete(id);
+    }
+    for (const chunk of changes.updates) {
+      const existing = byId.get(chunk.id);
+      if (existing) {
+        byId.set(chunk.id, { ...chunk, vector: existing.vector });
+      }
+    }
+    for (const chunk of changes.upserts) {
+      byId.set(chunk.id, chunk);
+    }
+
+    await this.write([...byId.values()], manifest.embedding, manifest);
+  }
+
+  /**
+   * Delete the snapshot; a missing snapshot is an empty index.
+   */
+  async clear(): Promise<void> {
+    await rm(this.filePath, { force: true });
+    snapshots.delete(this.filePath);
+  }
+
+  /**
+   * Rewrite the snapshot without its manifest.
+   */
+  async clearManifest(): Promise<void> {
+    const { chunks, embedding } = await this.load();
+    await this.write(chunks, embedding);
+  }
+
+  /**
+   * Get the manifest recorded in the snapshot.
+   */
+  async getManifest(): Promise<IndexManifest | null> {
+    return (await this.load()).manifest ?? null;
+  }
+
+  /**
+   * Search for similar chunks using brute-force cosine similarity.
+   */
+  async search(
+    vector: number[],
+    limit: number = 8,
+    filter?: SearchFilter,
+  ): Promise<SearchResult[]> {
+    const { chunks } = await this.load();
+
+    const scored: SearchResult[] = [];
+    for (const chunk of chunks) {
+      if (!matchesFilter(chunk.path, filter)) continue;
+
+      // Same 0-1 normalization as Upstash COSINE scores
+      const similarity = (1 + cosineSimilarity(vector, chunk.vector)) / 2;
+      scored.push({
+        chunk: { ...withoutVector(chunk), vector: [] },
+        distance: 1 - similarity,
+        similarity,
+      });
+    }
+
+    return scored
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  /**
+   * Fetch chunks by id, preserving input order.
+   */
+  async fetchByIds(ids: string[]): Promise<DocsChunk[]> {
+    const byId = await this.byId();
+    return ids
+      .map((id) => byId.get(id))
+      .filter((chunk): chunk is DocsChunk => !!chunk)
+      .map((chunk) => ({ ...withoutVector(chunk), vector: [] }));
+  }
+
+  /**
+   * Fetch stored embeddings by chunk id.
+   */
+  async fetchVectors(ids: string[]): Promise<Map<string, number[]>> {
+    const byId = await this.byId();
+    const vectors = new Map<string, number[]>();
+    for (const id of ids) {
+      const chunk = byId.get(id);
+      if (chunk?.vector.length) vectors.set(id, chunk.vector);
+    }
+    return vectors;
+  }
+
+  /**
+   * Get count of stored chunks.
+   */
+  async count(): Promise<number> {
+    return (await this.load()).chunks.length;
+  }
+
+  /**
+   * Get the embedding model recorded in the snapshot.
+   */
+  async getEmbeddingModel(): Promise<EmbeddingModelInfo | null> {
+    return (await this.load()).embedding ?? null;
+  }
+
+  private async write(
+    chunks: DocsChunk[],
+    embedding?: EmbeddingModelInfo,
+    manifest?: IndexManifest,
+  ): Promise<void> {
+    const snapshot: Snapshot = {
+      version: SNAPSHOT_VERSION,
+      createdAt: Date.now(),
+      embedding,
+      manifest,
+      chunks,
+    };
+
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(snapshot));
+    await rename(tmpPath, this.filePath);
+
+    const { mtimeMs } = await stat(this.filePath);
+    snapshots.set(this.filePath, { mtimeMs, snapshot });
+    console.log(`Wrote ${chunks.length} chunks to ${this.filePath}`);
+  }
+
+  private async byId(): Promise<Map<string, DocsChunk>> {
+    const { chunks } = await this.load();
+    return new Map(chunks.map((chunk) => [chunk.id, chunk]));
+  }
+
+  /**
+   * Load the snapshot, reusing the cached copy while the file is unchanged.
+   * A missing snapshot is an empty index.
+   */
+  private async load(): Promise<Pick<Snapshot, "chunks" | "embedding" | "manifest">> {
+    let mtimeMs: number;
+    try {
+      ({ mtimeMs } = await stat(this.filePath));
+    } catch {
+      return { chunks: [] };
+    }
+
+    const cached = snapshots.get(this.filePath);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.snapshot;
+    }
+
+    const snapshot: Snapshot = JSON.parse(await readFile(this.filePath, "utf-8"));
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported local vector snapshot version: ${snapshot.version}`);
+    }
+
+    snapshots.set(this.filePath, { mtimeMs, snapshot });
+    return snapshot;
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
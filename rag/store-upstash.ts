@@ -2,39 +2,77 @@
  * Upstash Vector storage layer for docs-chat RAG pipeline.
  * Stores document chunks with vector embeddings for semantic search.
  * Replaces LanceDB for serverless deployment compatibility.
+ * Each store reads one namespace, by default the active one (see active-index);
+ * its embedding model and manifest are recorded in Upstash Redis.
  */
 import { Index } from "@upstash/vector";
-
-export interface DocsChunk {
-  id: string;
-  path: string;
-  title: string;
-  content: string;
-  url: string;
-  vector: number[];
-}
-
-export interface SearchResult {
-  chunk: DocsChunk;
-  distance: number;
-  similarity: number;
-}
+import { Redis } from "@upstash/redis";
+import { getActiveNamespace } from "./active-index";
+import type { EmbeddingModelInfo } from "./embeddings";
+import type {
+  DocsChunk,
+  IndexChanges,
+  IndexManifest,
+  SearchFilter,
+  SearchResult,
+  VectorStore,
+} from "./vector-store";
 
 interface ChunkMetadata {
   path: string;
   title: string;
   content: string;
   url: string;
+  ordinal?: number;
+  pageChunkCount?: number;
+  prevId?: string;
+  nextId?: string;
+  headings?: string[];
+  section?: string;
+  sectionUrl?: string;
   [key: string]: unknown; // Index signature for Upstash Dict compatibility
 }
 
 // Upstash Vector has a limit of 1000 vectors per upsert batch
 const UPSERT_BATCH_SIZE = 1000;
+// Ids per delete request
+const DELETE_BATCH_SIZE = 1000;
+// Concurrent metadata updates (one request per chunk)
+const UPDATE_CONCURRENCY = 10;
+
+type IndexNamespace = ReturnType<Index<ChunkMetadata>["namespace"]>;
+
+function getRedis(): Redis | null {
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+  if (!url || !token) {
+    return null;
+  }
+
+  return new Redis({ url, token });
+}
 
-export class DocsStore {
+/**
+ * Redis keys of a namespace's records.
+ * The default namespace keeps the keys used before blue/green indexing.
+ */
+function namespaceKeys(namespace: string) {
+  const prefix = namespace ? `vector:${namespace}:` : "vector:";
+  return {
+    embedding: `${prefix}embedding`,
+    manifest: `${prefix}manifest`,
+  };
+}
+
+export class DocsStore implements VectorStore {
   private index: Index<ChunkMetadata>;
+  private namespace: Promise<string> | null;
 
-  constructor() {
+  /**
+   * @param namespace Namespace to read and write (default: the active index)
+   */
+  constructor(namespace?: string) {
     const url = process.env.UPSTASH_VECTOR_REST_URL;
     const token = process.env.UPSTASH_VECTOR_REST_TOKEN;
 
@@ -45,50 +83,99 @@ export class DocsStore {
     }
 
     this.index = new Index<ChunkMetadata>({ url, token });
+    this.namespace = namespace === undefined ? null : Promise.resolve(namespace);
   }
 
   /**
    * Drop existing vectors and upsert new chunks.
    * Used during index rebuild.
    */
-  async replaceAll(chunks: DocsChunk[]): Promise<void> {
-    // Reset the index (delete all vectors)
-    await this.index.reset();
-
-    if (chunks.length === 0) {
-      return;
-    }
+  async replaceAll(chunks: DocsChunk[], manifest: IndexManifest): Promise<void> {
+    // Reset the namespace (delete all vectors)
+    await (await this.ns()).reset();
+    await this.upsertChunks(chunks);
+    await this.saveManifest(manifest);
+  }
 
-    // Upsert in batches to respect API limits
-    for (let i = 0; i < chunks.length; i += UPSERT_BATCH_SIZE) {
-      const batch = chunks.slice(i, i + UPSERT_BATCH_SIZE);
-      const vectors = batch.map((chunk) => ({
-        id: chunk.id,
-        vector: chunk.vector,
-        metadata: {
-          path: chunk.path,
-          title: chunk.title,
-          content: chunk.content,
-          url: chunk.url,
-        },
-      }));
+  /**
+   * Upsert new chunks, rewrite changed metadata and delete removed chunks.
+   * The manifest is saved last, so an interrupted run is redone in full
+   * by the next one.
+   */
+  async applyChanges(changes: IndexChanges, manifest: IndexManifest): Promise<void> {
+    const ns = await this.ns();
+    await this.upsertChunks(changes.upserts);
 
-      await this.index.upsert(vectors);
-      console.error(
-        `Upserted batch ${Math.floor(i / UPSERT_BATCH_SIZE) + 1}/${Math.ceil(chunks.length / UPSERT_BATCH_SIZE)}`,
+    for (let i = 0; i < changes.updates.length; i += UPDATE_CONCURRENCY) {
+      await Promise.all(
+        changes.updates.slice(i, i + UPDATE_CONCURRENCY).map((chunk) =>
+          ns.update({
+            id: chunk.id,
+            metadata: toMetadata(chunk),
+            metadataUpdateMode: "OVERWRITE",
+          })
+        )
       );
     }
+
+    for (let i = 0; i < changes.deletes.length; i += DELETE_BATCH_SIZE) {
+      await ns.delete(changes.deletes.slice(i, i + DELETE_BATCH_SIZE));
+    }
+
+    await this.saveManifest(manifest);
+  }
+
+  /**
+   * Delete every vector in the namespace and its Redis records.
+   */
+  async clear(): Promise<void> {
+    await (await this.ns()).reset();
+    const keys = namespaceKeys(await this.namespaceName());
+    await getRedis()?.del(keys.embedding, keys.manifest);
+  }
+
+  /**
+   * Delete the manifest, keeping the vectors and embedding model record.
+   */
+  async clearManifest(): Promise<void> {
+    const keys = namespaceKeys(await this.namespaceName());
+    await getRedis()?.del(keys.manifest);
+  }
+
+  /**
+   * Get the manifest saved by the last update.
+   * Null without Redis or for indexes built before manifests were saved.
+   */
+  async getManifest(): Promise<IndexManifest | null> {
+    const redis = getRedis();
+    if (!redis) return null;
+    return redis.get<IndexManifest>(namespaceKeys(await this.namespaceName()).manifest);
+  }
+
+  /**
+   * Get the embedding model recorded by the last rebuild.
+   * Null without Redis or for indexes built before it was recorded.
+   */
+  async getEmbeddingModel(): Promise<EmbeddingModelInfo | null> {
+    const redis = getRedis();
+    if (!redis) return null;
+    return redis.get<EmbeddingModelInfo>(namespaceKeys(await this.namespaceName()).embedding);
   }
 
   /**
    * Search for similar chunks using vector similarity.
    */
-  async search(vector: number[], limit: number = 8): Promise<SearchResult[]> {
-    const results = await this.index.query<ChunkMetadata>({
+  async search(
+    vector: number[],
+    limit: number = 8,
+    filter?: SearchFilter,
+  ): Promise<SearchResult[]> {
+    const results = await (await this.ns()).query<ChunkMetadata>({
       vector,
       topK: limit,
       includeMetadata: true,
       includeVectors: false,
+      filter: toMetadataFilter(filter),
     });
 
     return results.map((result) => {
@@ -100,11 +187,7 @@ export class DocsStore {
       const metadata = result.metadata!;
       return {
         chunk: {
-          id: result.id as string,
-          path: metadata.path,
-          title: metadata.title,
-          content: metadata.content,
-          url: metadata.url,
+          ...toChunk(result.id as string, metadata),
           vector: [], // Don't return vector to save memory
         },
         distance,
@@ -114,10 +197,154 @@ export class DocsStore {
   }
 
   /**
-   * Get count of stored chunks.
+   * Fetch chunks by id, preserving input order.
+   * Ids that no longer exist in the index are skipped.
+   */
+  async fetchByIds(ids: string[]): Promise<DocsChunk[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const results = await (await this.ns()).fetch<ChunkMetadata>(ids, {
+      includeMetadata: true,
+      includeVectors: false,
+    });
+
+    const chunks: DocsChunk[] = [];
+    for (const result of results) {
+      if (!result?.metadata) continue;
+      chunks.push({
+        ...toChunk(result.id as string, result.metadata),
+        vector: [],
+      });
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Fetch stored embeddings by chunk id.
+   * Ids that no longer exist in the index are skipped.
+   */
+  async fetchVectors(ids: string[]): Promise<Map<string, number[]>> {
+    const vectors = new Map<string, number[]>();
+    if (ids.length === 0) {
+      return vectors;
+    }
+
+    const results = await (await this.ns()).fetch(ids, {
+      includeMetadata: false,
+      includeVectors: true,
+    });
+
+    for (const result of results) {
+      if (result?.vector?.length) {
+        vectors.set(result.id as string, result.vector);
+      }
+    }
+
+    return vectors;
+  }
+
+  /**
+   * Get count of chunks stored in the namespace, including those still
+   * being indexed.
    */
   async count(): Promise<number> {
     const info = await this.index.info();
-    return info.vectorCount;
+    const stats = info.namespaces[await this.namespaceName()];
+    return stats ? stats.vectorCount + stats.pendingVectorCount : 0;
   }
+
+  /**
+   * Upsert chunks in batches to respect API limits.
+   */
+  private async upsertChunks(chunks: DocsChunk[]): Promise<void> {
+    const ns = await this.ns();
+    for (let i = 0; i < chunks.length; i += UPSERT_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + UPSERT_BATCH_SIZE);
+      await ns.upsert(
+        batch.map((chunk) => ({
+          id: chunk.id,
+          vector: chunk.vector,
+          metadata: toMetadata(chunk),
+        }))
+      );
+      console.error(
+        `Upserted batch ${Math.floor(i / UPSERT_BATCH_SIZE) + 1}/${Math.ceil(chunks.length / UPSERT_BATCH_SIZE)}`,
+      );
+    }
+  }
+
+  private async saveManifest(manifest: IndexManifest): Promise<void> {
+    const redis = getRedis();
+    if (!redis) return;
+    const keys = namespaceKeys(await this.namespaceName());
+    await redis.set(keys.embedding, manifest.embedding);
+    await redis.set(keys.manifest, manifest);
+  }
+
+  /**
+   * Resolve the namespace once per store, so one request reads one index.
+   */
+  private namespaceName(): Promise<string> {
+    this.namespace ??= getActiveNamespace();
+    return this.namespace;
+  }
+
+  private async ns(): Promise<IndexNamespace> {
+    return this.index.namespace(await this.namespaceName());
+  }
+}
+
+/**
+ * Build stored metadata from a chunk.
+ */
+function toMetadata(chunk: Omit<DocsChunk, "vector">): ChunkMetadata {
+  return {
+    path: chunk.path,
+    title: chunk.title,
+    content: chunk.content,
+    url: chunk.url,
+    ordinal: chunk.ordinal,
+    pageChunkCount: chunk.pageChunkCount,
+    prevId: chunk.prevId,
+    nextId: chunk.nextId,
+    headings: chunk.headings,
+    section: chunk.section,
+    sectionUrl: chunk.sectionUrl,
+  };
+}
+
+/**
+ * Build a chunk (without vector) from stored metadata.
+ * Position and section fields are absent on indexes built before they were stored.
+ */
+function toChunk(id: string, metadata: ChunkMetadata): Omit<DocsChunk, "vector"> {
+  return {
+    id,
+    path: metadata.path,
+    title: metadata.title,
+    content: metadata.content,
+    url: metadata.url,
+    ordinal: metadata.ordinal,
+    pageChunkCount: metadata.pageChunkCount,
+    prevId: metadata.prevId,
+    nextId: metadata.nextId,
+    headings: metadata.headings,
+    section: metadata.section,
+    sectionUrl: metadata.sectionUrl,
+  };
+}
+
+/**
+ * Convert a search filter to an Upstash metadata filter expression.
+ */
+function toMetadataFilter(filter?: SearchFilter): string | undefined {
+  const prefixes = filter?.pathPrefixes?.filter(Boolean) ?? [];
+  if (prefixes.length === 0) return undefined;
+
+  return prefixes
+    .map((prefix) => `path GLOB '${prefix.replace(/['*?[\]]/g, "")}*'`)
+    .join(" OR ");
 }
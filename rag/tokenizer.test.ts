@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { QUERY_STOP_WORDS, tokenize } from "./tokenizer";
+
+describe("tokenize", () => {
+  test("keeps compound identifiers whole and emits their parts", () => {
+    expect(tokenize("set OPENCLAW_API_KEY for agent.run()")).toEqual([
+      "set",
+      "openclaw_api_key",
+      "openclaw",
+      "api",
+      "key",
+      "agent.run",
+      "agent",
+      "run",
+    ]);
+  });
+
+  test("keeps CLI flags and scoped packages", () => {
+    expect(tokenize("use --config with @openclaw/sdk")).toEqual([
+      "use",
+      "--config",
+      "config",
+      "@openclaw/sdk",
+      "openclaw",
+      "sdk",
+    ]);
+  });
+
+  test("splits camelCase identifiers", () => {
+    expect(tokenize("getUserName")).toEqual(["getusername", "get", "user", "name"]);
+  });
+
+  test("drops sentence punctuation and stop words", () => {
+    expect(tokenize("Where is the gateway?")).toEqual(["where", "gateway"]);
+    expect(tokenize("Where is the gateway?", { stopWords: QUERY_STOP_WORDS })).toEqual([
+      "gateway",
+    ]);
+  });
+
+  test("emits only whole identifiers without sub-tokens", () => {
+    expect(tokenize("agent.run", { subTokens: false })).toEqual(["agent.run"]);
+  });
+
+  test("stems plain words but leaves identifiers alone", () => {
+    expect(tokenize("configured agents", { stem: true })).toEqual(["configur", "agent"]);
+    expect(tokenize("agents.list", { stem: true, subTokens: false })).toEqual(["agents.list"]);
+  });
+});
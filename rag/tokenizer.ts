@@ -0,0 +1,127 @@
+/**
+ * Code-aware Tokenizer for docs-chat RAG pipeline.
+ * Shared by the query classifier, BM25 indexer and BM25 searcher.
+ * Keeps identifiers like `agent.run`, `--config`, `@openclaw/sdk` and
+ * `OPENCLAW_API_KEY` intact and also emits their parts, so both the exact
+ * identifier and its pieces can match.
+ *
+ * Environment variables:
+ *   BM25_STEMMING - Enable light suffix stemming (re-index after changing)
+ */
+
+export interface TokenizeOptions {
+  /** Words to drop (compound identifiers are always kept whole) */
+  stopWords?: ReadonlySet<string>;
+  /** Minimum token length */
+  minLength?: number;
+  /** Emit camelCase / snake_case / kebab-case / dotted sub-tokens */
+  subTokens?: boolean;
+  /** Apply light suffix stemming to plain words */
+  stem?: boolean;
+}
+
+// Stop words for indexing and searching
+export const STOP_WORDS: ReadonlySet<string> = new Set([
+  "a", "an", "the", "is", "are", "was", "were", "be", "been", "being",
+  "have", "has", "had", "do", "does", "did", "will", "would", "could",
+  "should", "may", "might", "must", "shall", "can", "need", "to", "of",
+  "in", "for", "on", "with", "at", "by", "from", "as", "into", "through",
+  "and", "but", "if", "or", "because", "until", "while", "it", "this",
+  "that", "these", "those", "i", "me", "my", "we", "you", "your",
+]);
+
+// Additional filler words dropped when extracting query keywords
+export const QUERY_STOP_WORDS: ReadonlySet<string> = new Set([
+  ...STOP_WORDS,
+  "dare", "during", "before", "after", "above", "below",
+  "between", "under", "again", "further", "then", "once", "here",
+  "there", "when", "where", "why", "how", "all", "each", "few",
+  "more", "most", "other", "some", "such", "no", "nor", "not",
+  "only", "own", "same", "so", "than", "too", "very", "just",
+]);
+
+// Runs of identifier characters; everything else separates tokens
+const TOKEN_PATTERN = /[\w@$.\/:\-]+/g;
+
+// Characters that join the parts of a compound identifier
+const PART_SEPARATORS = /[._\-\/@:$]+/;
+
+const DEFAULT_OPTIONS: Required<TokenizeOptions> = {
+  stopWords: STOP_WORDS,
+  minLength: 2,
+  subTokens: true,
+  stem: process.env.BM25_STEMMING === "true",
+};
+
+/**
+ * Tokenize text into lowercase search terms.
+ * Compound identifiers are emitted whole, followed by their parts.
+ */
+export function tokenize(text: string, options: TokenizeOptions = {}): string[] {
+  const { stopWords, minLength, subTokens, stem } = { ...DEFAULT_OPTIONS, ...options };
+  const tokens: string[] = [];
+
+  const push = (word: string) => {
+    const term = stem ? stemWord(word) : word;
+    if (term.length >= minLength && !stopWords.has(term)) {
+      tokens.push(term);
+    }
+  };
+
+  for (const match of text.match(TOKEN_PATTERN) || []) {
+    // Drop sentence punctuation and leading path/URL separators
+    const raw = match.replace(/^[\/:]+/, "").replace(/[.:\/\-@]+$/, "");
+    if (!raw) continue;
+
+    const whole = raw.toLowerCase();
+    const parts = splitIdentifier(raw);
+
+    if (parts.length === 1 && parts[0] === whole) {
+      push(whole);
+      continue;
+    }
+
+    if (whole.length >= minLength) {
+      tokens.push(whole);
+    }
+    if (subTokens) {
+      parts.forEach(push);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Split an identifier on separators and camelCase boundaries.
+ */
+function splitIdentifier(identifier: string): string[] {
+  return identifier
+    .split(PART_SEPARATORS)
+    .flatMap((part) =>
+      part
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+        .split(" ")
+    )
+    .map((part) => part.toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Light suffix stemming for plain English words.
+ * Deliberately conservative: identifiers and short words are left alone.
+ */
+function stemWord(word: string): string {
+  if (word.length <= 3 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  if (word.endsWith("ies") && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (word.endsWith("sses")) return word.slice(0, -2);
+  if (word.endsWith("ing") && word.length > 5) return word.slice(0, -3);
+  if (word.endsWith("ed") && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith("s") && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+
+  return word;
+}
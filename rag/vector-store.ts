@@ -0,0 +1,109 @@
+/**
+ * Vector store contract for docs-chat RAG pipeline.
+ * Shared chunk types plus the interface implemented by the Upstash
+ * (store-upstash) and local file (store-local) backends.
+ */
+import type { EmbeddingModelInfo } from "./embeddings";
+
+export interface DocsChunk {
+  id: string;
+  path: string;
+  title: string;
+  content: string;
+  url: string;
+  vector: number[];
+  /** Position of the chunk within its page (0-based) */
+  ordinal?: number;
+  /** Number of chunks the page was split into */
+  pageChunkCount?: number;
+  /** Ids of the adjacent chunks of the same page */
+  prevId?: string;
+  nextId?: string;
+  /** Headings enclosing the chunk within its page, outermost first */
+  headings?: string[];
+  /** Heading of the section the chunk starts in */
+  section?: string;
+  /** Page url with the anchor of that section, for citations */
+  sectionUrl?: string;
+}
+
+/**
+ * What an index was built from: the embedding model and, per page url,
+ * its chunk ids in page order. Chunk ids hash the chunk content, so an
+ * unchanged id means an unchanged embedding.
+ */
+export interface IndexManifest {
+  embedding: EmbeddingModelInfo;
+  pages: Record<string, ManifestPage>;
+  updatedAt: number;
+}
+
+export interface ManifestPage {
+  title: string;
+  chunkIds: string[];
+}
+
+/**
+ * Changes that bring a stored index in line with a new manifest.
+ */
+export interface IndexChanges {
+  /** New chunks, with embeddings */
+  upserts: DocsChunk[];
+  /** Kept chunks whose metadata (title, position, neighbors) changed */
+  updates: Omit<DocsChunk, "vector">[];
+  /** Ids of chunks no longer in any page */
+  deletes: string[];
+}
+
+export interface SearchResult {
+  chunk: DocsChunk;
+  distance: number;
+  similarity: number;
+}
+
+export interface SearchFilter {
+  pathPrefixes?: string[];
+}
+
+/**
+ * Storage backend for embedded documentation chunks.
+ * Similarity scores are normalized to 0-1 (higher is more similar).
+ */
+export interface VectorStore {
+  /** Drop existing vectors and store new chunks (index rebuild) */
+  replaceAll(chunks: DocsChunk[], manifest: IndexManifest): Promise<void>;
+  /** Apply an incremental update; the manifest is saved last */
+  applyChanges(changes: IndexChanges, manifest: IndexManifest): Promise<void>;
+  /** Drop all chunks and the manifest */
+  clear(): Promise<void>;
+  /** Drop the manifest only, so the next update rebuilds in full */
+  clearManifest(): Promise<void>;
+  /** Manifest saved by the last update, null before the first manifest-aware build */
+  getManifest(): Promise<IndexManifest | null>;
+  /** Embedding model recorded by the last rebuild, null if none was recorded */
+  getEmbeddingModel(): Promise<EmbeddingModelInfo | null>;
+  search(vector: number[], limit?: number, filter?: SearchFilter): Promise<SearchResult[]>;
+  /** Fetch chunks by id in input order, skipping ids that no longer exist */
+  fetchByIds(ids: string[]): Promise<DocsChunk[]>;
+  fetchVectors(ids: string[]): Promise<Map<string, number[]>>;
+  count(): Promise<number>;
+}
+
+/**
+ * Copy a chunk without its embedding.
+ */
+export function withoutVector(
+  chunk: Omit<DocsChunk, "vector"> & { vector?: number[] }
+): Omit<DocsChunk, "vector"> {
+  const copy = { ...chunk };
+  delete copy.vector;
+  return copy;
+}
+
+/**
+ * Check whether a chunk path matches a search filter.
+ */
+export function matchesFilter(path: string, filter?: SearchFilter): boolean {
+  const prefixes = filter?.pathPrefixes?.filter(Boolean) ?? [];
+  return prefixes.length === 0 || prefixes.some((prefix) => path.startsWith(prefix));
+}
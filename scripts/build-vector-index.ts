@@ -1,17 +1,21 @@
 /**
  * Build script to index OpenClaw documentation into Upstash Vector.
- * Run with: bun run build:index
+ * Run with: bun run build:index [--full]
+ * Only changed chunks are embedded unless --full forces a rebuild.
  */
 import { indexDocs } from "../rag/indexer";
 
 console.log("🦞 Starting documentation indexing...\n");
 
-const result = await indexDocs();
+const result = await indexDocs({ full: process.argv.includes("--full") });
 
 if (result.success) {
   console.log("\n✅ Indexing completed successfully!");
   console.log(`   Pages processed: ${result.pagesProcessed}`);
+  console.log(`   Mode: ${result.mode}`);
   console.log(`   Chunks created: ${result.chunksCreated}`);
+  console.log(`   Chunks embedded: ${result.chunksEmbedded}`);
+  console.log(`   Chunks deleted: ${result.chunksDeleted}`);
   console.log(`   Unique terms (BM25): ${result.uniqueTerms}`);
   console.log(`   Duration: ${result.duration}ms`);
 } else {
@@ -0,0 +1,90 @@
+/**
+ * Fit confidence calibration (Platt scaling per score source).
+ * Run with: bun run fit:confidence [samples.jsonl]
+ *
+ * Samples are read from a JSONL file of { "source", "score", "label" } lines,
+ * or, without a file, from rated queries in the observability log
+ * (helpful = 1, partial = 0.5, not helpful = 0; needs ENABLE_OBSERVABILITY).
+ * Writes rag/confidence-calibration.json.
+ */
+import { readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  fitCalibration,
+  getCalibration,
+  MIN_CALIBRATION_SAMPLES,
+  SCORE_SOURCES,
+  type CalibrationSample,
+} from "../rag/confidence";
+import { getObservabilityService, type FeedbackEntry } from "../rag/observability";
+
+const CALIBRATION_PATH = join(import.meta.dirname, "../rag/confidence-calibration.json");
+
+const FEEDBACK_LABELS: Record<FeedbackEntry["rating"], number> = {
+  helpful: 1,
+  partial: 0.5,
+  not_helpful: 0,
+};
+
+async function loadLabeledSamples(path: string): Promise<CalibrationSample[]> {
+  const lines = (await readFile(path, "utf-8")).split("\n").filter((line) => line.trim());
+  return lines.map((line, i) => {
+    const sample = JSON.parse(line) as CalibrationSample;
+    if (
+      !SCORE_SOURCES.includes(sample.source) ||
+      typeof sample.score !== "number" ||
+      typeof sample.label !== "number" ||
+      sample.label < 0 ||
+      sample.label > 1
+    ) {
+      throw new Error(`Invalid sample on line ${i + 1}: ${line}`);
+    }
+    return sample;
+  });
+}
+
+async function loadFeedbackSamples(): Promise<CalibrationSample[]> {
+  const rated = await getObservabilityService().getRatedQueries();
+  return rated
+    .filter(({ log }) => log.rawScore)
+    .map(({ log, feedback }) => ({
+      ...log.rawScore!,
+      label: FEEDBACK_LABELS[feedback.rating],
+    }));
+}
+
+const samplesPath = process.argv[2];
+const samples = samplesPath
+  ? await loadLabeledSamples(samplesPath)
+  : await loadFeedbackSamples();
+
+console.log(
+  `📐 Fitting confidence calibration on ${samples.length} samples from ${samplesPath ?? "feedback"}\n`
+);
+
+const previous = getCalibration();
+const calibration = fitCalibration(samples, previous);
+
+for (const source of SCORE_SOURCES) {
+  const count = samples.filter((s) => s.source === source).length;
+  const params = calibration.sources[source];
+  if (params === previous.sources[source]) {
+    console.log(`   ${source}: kept (${count} samples, need ${MIN_CALIBRATION_SAMPLES} with both outcomes)`);
+    continue;
+  }
+  console.log(`   ${source}: a=${params.a.toFixed(4)} b=${params.b.toFixed(4)} (${count} samples)`);
+  if (params.a <= 0) {
+    console.warn(`   ⚠️  ${source}: higher scores do not predict better answers; check the samples`);
+  }
+}
+
+const fitted = SCORE_SOURCES.filter(
+  (source) => calibration.sources[source] !== previous.sources[source]
+);
+if (fitted.length === 0) {
+  console.error("\n❌ Not enough samples to fit any score source");
+  process.exit(1);
+}
+
+await writeFile(CALIBRATION_PATH, JSON.stringify(calibration, null, 2) + "\n");
+console.log(`\n✅ Wrote ${CALIBRATION_PATH}`);
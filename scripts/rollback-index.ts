@@ -0,0 +1,20 @@
+/**
+ * Roll back to the previously active index (blue/green namespaces).
+ * Run with: bun run rollback:index
+ * Running it again switches back.
+ */
+import { rollbackIndex } from "../rag/active-index";
+import { bumpIndexVersion } from "../rag/index-version";
+
+try {
+  const pointer = await rollbackIndex();
+  // Invalidate process-level caches on all instances
+  await bumpIndexVersion();
+
+  console.log(`✅ Rolled back to namespace "${pointer.active.namespace}"`);
+  console.log(`   Chunks: ${pointer.active.chunkCount}`);
+  console.log(`   Previous (now standby): "${pointer.previous?.namespace ?? ""}"`);
+} catch (error) {
+  console.error(`❌ Rollback failed: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}